@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import type { AutoSnapshotPolicy } from "@shared/schema";
+
+interface AutoSnapshotSettingsProps {
+  sessionId: string;
+  policy: AutoSnapshotPolicy | null | undefined;
+  onSaved?: () => void;
+}
+
+type Rule = keyof AutoSnapshotPolicy;
+
+const rules: { key: Rule; label: string; unit: string; defaultValue: number; min: number; max: number }[] = [
+  { key: "intervalMinutes", label: "Every", unit: "minutes of editing", defaultValue: 10, min: 1, max: 24 * 60 },
+  { key: "idleSeconds", label: "After", unit: "seconds without edits", defaultValue: 30, min: 5, max: 60 * 60 },
+  { key: "changedLines", label: "After", unit: "changed lines", defaultValue: 50, min: 1, max: 100000 },
+];
+
+type RuleState = Record<Rule, { enabled: boolean; value: string }>;
+
+function toRuleState(policy: AutoSnapshotPolicy | null | undefined): RuleState {
+  return Object.fromEntries(rules.map(({ key, defaultValue }) => {
+    const value = policy?.[key];
+    return [key, { enabled: value != null, value: String(value ?? defaultValue) }];
+  })) as RuleState;
+}
+
+/**
+ * Edits when the server snapshots the session on its own. Any enabled rule
+ * can trigger a snapshot, and none is taken unless the files changed.
+ */
+export function AutoSnapshotSettings({ sessionId, policy, onSaved }: AutoSnapshotSettingsProps) {
+  const { toast } = useToast();
+  const [state, setState] = useState<RuleState>(() => toRuleState(policy));
+
+  useEffect(() => {
+    setState(toRuleState(policy));
+  }, [policy]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = Object.fromEntries(rules.map(({ key }) => [
+        key,
+        state[key].enabled ? Number(state[key].value) : null,
+      ]));
+      return apiRequest("PATCH", `/api/sessions/${sessionId}/auto-snapshots`, body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId], exact: true });
+      toast({
+        title: "Auto-snapshots updated",
+        description: rules.some(({ key }) => state[key].enabled)
+          ? "Snapshots will be taken automatically while the files change"
+          : "Automatic snapshots are off",
+      });
+      onSaved?.();
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to update auto-snapshots"),
+      });
+    },
+  });
+
+  const update = (key: Rule, change: Partial<RuleState[Rule]>) => {
+    setState((current) => ({ ...current, [key]: { ...current[key], ...change } }));
+  };
+
+  return (
+    <div className="space-y-4">
+      {rules.map(({ key, label, unit, min, max }) => (
+        <div key={key} className="flex items-center gap-3">
+          <Switch
+            id={`auto-snapshot-${key}`}
+            checked={state[key].enabled}
+            onCheckedChange={(enabled) => update(key, { enabled })}
+            data-testid={`switch-auto-snapshot-${key}`}
+          />
+          <Label htmlFor={`auto-snapshot-${key}`} className="w-12">{label}</Label>
+          <Input
+            type="number"
+            min={min}
+            max={max}
+            value={state[key].value}
+            onChange={(e) => update(key, { value: e.target.value })}
+            disabled={!state[key].enabled}
+            className="w-24"
+            data-testid={`input-auto-snapshot-${key}`}
+          />
+          <span className="text-sm text-muted-foreground">{unit}</span>
+        </div>
+      ))}
+      <Button
+        className="w-full gap-2"
+        onClick={() => saveMutation.mutate()}
+        disabled={saveMutation.isPending}
+        data-testid="button-save-auto-snapshots"
+      >
+        <Save className="h-4 w-4" />
+        {saveMutation.isPending ? "Saving..." : "Save"}
+      </Button>
+    </div>
+  );
+}
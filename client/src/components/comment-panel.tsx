@@ -1,43 +1,601 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { MessageSquare, Check, X } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { MessageSquare, Check, X, ChevronDown, ChevronRight, Reply, MousePointerClick, PencilLine, Pencil, Trash2, Wand2 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
-import type { InlineComment, User } from "@shared/schema";
+import { diffLines } from "diff";
+import { formatCommentRange, type CommentRange, type CommentSuggestion } from "@shared/comments";
+import type { CommentEdit, InlineComment, User } from "@shared/schema";
+
+type CommentWithAuthor = InlineComment & { author: User; suggestionApplier?: { username: string } | null };
+
+export interface CommentAnchor {
+  filePath: string;
+  range: CommentRange;
+}
+
+/** A selection waiting for its comment, with the code it covers */
+export interface CommentDraft extends CommentAnchor {
+  selectedText: string;
+}
+
+/** Where a thread is now, which may differ from where it was made */
+export interface CommentLocation extends CommentAnchor {
+  outdated: boolean;
+}
 
 interface CommentPanelProps {
-  comments: (InlineComment & { author: User })[];
-  onAddComment?: (text: string, filePath: string, range: any) => void;
+  comments: CommentWithAuthor[];
+  /** Where a new comment will be attached, picked from the editor's selection */
+  draftAnchor?: CommentDraft | null;
+  onClearDraftAnchor?: () => void;
+  onAddComment?: (text: string, filePath: string, range: CommentRange, suggestion?: CommentSuggestion) => void;
+  onReplyComment?: (commentId: string, text: string) => void;
   onResolveComment?: (commentId: string) => void;
   onUnresolveComment?: (commentId: string) => void;
+  onEditComment?: (commentId: string, text: string) => void;
+  onDeleteComment?: (commentId: string) => void;
+  /** Comments by this user can be edited and deleted */
+  currentUserId?: string;
+  onSelectComment?: (comment: CommentWithAuthor) => void;
+  /** Set for those who may edit; applying a suggestion changes the live files */
+  onApplySuggestion?: (commentId: string) => void;
+  /** Applies several suggestions as one snapshot */
+  onApplySuggestions?: (commentIds: string[]) => void;
+  /** Current location per thread; threads without one show where they were made */
+  locations?: Map<string, CommentLocation>;
+  /** Scrolled to and highlighted, e.g. after its gutter marker was clicked */
+  activeCommentId?: string | null;
+  canComment?: boolean;
+}
+
+interface CommentThreadProps {
+  comment: CommentWithAuthor;
+  replies: CommentWithAuthor[];
+  location: CommentLocation;
+  resolved: boolean;
+  active: boolean;
+  onSelect?: () => void;
+  onApplySuggestion?: () => void;
+  /** Whether the suggestion is picked for applying with others; undefined when it can't be */
+  batched?: boolean;
+  onBatchedChange?: (batched: boolean) => void;
+  onReply?: (text: string) => void;
+  onResolve?: () => void;
+  onUnresolve?: () => void;
+  /** Edit and delete handlers for the comments the current user wrote */
+  getOwnerActions: (comment: CommentWithAuthor) => Pick<CommentBodyProps, "onEdit" | "onDelete">;
+  canComment: boolean;
+}
+
+interface CommentBodyProps {
+  comment: CommentWithAuthor;
+  muted?: boolean;
+  /** Set for the author: editing and deleting their own comment */
+  onEdit?: (text: string) => void;
+  onDelete?: () => void;
+}
+
+function CommentHistory({ commentId }: { commentId: string }) {
+  const { data: edits } = useQuery<CommentEdit[]>({
+    queryKey: ["/api/comments", commentId, "history"],
+  });
+
+  if (!edits) {
+    return <p className="text-xs text-muted-foreground">Loading...</p>;
+  }
+  return (
+    <div className="space-y-2 max-h-60 overflow-y-auto" data-testid={`comment-history-${commentId}`}>
+      <p className="text-xs font-medium">Earlier versions</p>
+      {edits.map((edit) => (
+        <div key={edit.id} className="border-l-2 pl-2">
+          <p className="text-xs text-muted-foreground">
+            Replaced {formatDistanceToNow(new Date(edit.createdAt), { addSuffix: true })}
+          </p>
+          <p className="text-xs whitespace-pre-wrap">{edit.text}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function CommentBody({ comment, muted, onEdit, onDelete }: CommentBodyProps) {
+  const [editText, setEditText] = useState<string | null>(null);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  if (comment.deletedAt) {
+    return (
+      <p className="text-sm italic text-muted-foreground mb-2" data-testid={`text-comment-deleted-${comment.id}`}>
+        This comment was deleted
+      </p>
+    );
+  }
+
+  const handleSave = () => {
+    if (editText?.trim() && onEdit) {
+      onEdit(editText);
+      setEditText(null);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex items-start gap-2 mb-2">
+        <Avatar className={`h-6 w-6 ${muted ? "opacity-60" : ""}`}>
+          <AvatarImage src={comment.author.avatarUrl || undefined} />
+          <AvatarFallback className="text-xs">
+            {comment.author.username.charAt(0).toUpperCase()}
+          </AvatarFallback>
+        </Avatar>
+        <div className="flex-1 min-w-0">
+          <p className={`text-xs font-medium ${muted ? "opacity-60" : ""}`}>{comment.author.username}</p>
+          <p className="text-xs text-muted-foreground">
+            {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+            {comment.editedAt && (
+              <Popover>
+                <PopoverTrigger asChild>
+                  <button
+                    className="ml-1 underline decoration-dotted"
+                    onClick={(e) => e.stopPropagation()}
+                    data-testid={`button-comment-history-${comment.id}`}
+                  >
+                    (edited)
+                  </button>
+                </PopoverTrigger>
+                <PopoverContent className="w-72" onClick={(e) => e.stopPropagation()}>
+                  <CommentHistory commentId={comment.id} />
+                </PopoverContent>
+              </Popover>
+            )}
+          </p>
+        </div>
+        {onEdit && editText === null && (
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-6 w-6 shrink-0"
+            onClick={(e) => {
+              e.stopPropagation();
+              setEditText(comment.text);
+            }}
+            title="Edit"
+            data-testid={`button-edit-comment-${comment.id}`}
+          >
+            <Pencil className="h-3 w-3" />
+          </Button>
+        )}
+        {onDelete && editText === null && (
+          isConfirmingDelete ? (
+            <Button
+              size="sm"
+              variant="destructive"
+              className="h-6 px-2 text-xs shrink-0"
+              onClick={(e) => {
+                e.stopPropagation();
+                onDelete();
+              }}
+              onBlur={() => setIsConfirmingDelete(false)}
+              autoFocus
+              data-testid={`button-confirm-delete-comment-${comment.id}`}
+            >
+              Delete
+            </Button>
+          ) : (
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-6 w-6 shrink-0"
+              onClick={(e) => {
+                e.stopPropagation();
+                setIsConfirmingDelete(true);
+              }}
+              title="Delete"
+              data-testid={`button-delete-comment-${comment.id}`}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          )
+        )}
+      </div>
+      {editText !== null ? (
+        <div className="mb-2" onClick={(e) => e.stopPropagation()}>
+          <Textarea
+            value={editText}
+            onChange={(e) => setEditText(e.target.value)}
+            className="mb-2 resize-none text-sm"
+            rows={3}
+            autoFocus
+            data-testid={`input-edit-comment-${comment.id}`}
+          />
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              className="h-7 text-xs flex-1"
+              onClick={handleSave}
+              disabled={!editText.trim()}
+              data-testid={`button-save-comment-${comment.id}`}
+            >
+              Save
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7 text-xs flex-1"
+              onClick={() => setEditText(null)}
+              data-testid={`button-cancel-edit-comment-${comment.id}`}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : comment.text && (
+        <p className={`text-sm mb-2 whitespace-pre-wrap ${muted ? "opacity-60 line-clamp-2" : ""}`}>{comment.text}</p>
+      )}
+    </>
+  );
+}
+
+function SuggestionDiff({ suggestion }: { suggestion: CommentSuggestion }) {
+  const lines = diffLines(suggestion.original, suggestion.replacement).flatMap((part) =>
+    part.value.replace(/\n$/, "").split("\n").map((line) => ({ line, added: part.added, removed: part.removed })));
+
+  return (
+    <div className="mb-2 rounded-md border overflow-x-auto font-mono text-xs" data-testid="suggestion-diff">
+      {lines.map(({ line, added, removed }, index) => (
+        <div
+          key={index}
+          className={`px-2 whitespace-pre ${
+            added ? "bg-green-500/15 text-green-700 dark:text-green-300" : removed ? "bg-red-500/15 text-red-700 dark:text-red-300" : ""
+          }`}
+        >
+          {added ? "+" : removed ? "-" : " "} {line}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function CommentThread({
+  comment,
+  replies,
+  location,
+  resolved,
+  active,
+  onSelect,
+  onApplySuggestion,
+  batched,
+  onBatchedChange,
+  onReply,
+  onResolve,
+  onUnresolve,
+  getOwnerActions,
+  canComment,
+}: CommentThreadProps) {
+  // Resolved threads start folded away; open ones show their replies
+  const [isExpanded, setIsExpanded] = useState(!resolved);
+  const [replyText, setReplyText] = useState("");
+  const threadRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!active) return;
+    setIsExpanded(true);
+    threadRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [active]);
+
+  const handleSubmitReply = () => {
+    if (replyText.trim() && onReply) {
+      onReply(replyText);
+      setReplyText("");
+    }
+  };
+
+  return (
+    <div
+      ref={threadRef}
+      className={`p-3 rounded-md border ${resolved ? "bg-muted/50" : "bg-card"} ${active ? "ring-2 ring-primary" : ""}`}
+      data-testid={resolved ? `comment-resolved-${comment.id}` : `comment-${comment.id}`}
+    >
+      <div
+        className="cursor-pointer"
+        onClick={onSelect}
+        title="Show in editor"
+        data-testid={`button-show-comment-${comment.id}`}
+      >
+        <CommentBody comment={comment} muted={resolved && !isExpanded} {...getOwnerActions(comment)} />
+      </div>
+      {comment.suggestion && (
+        <>
+          <SuggestionDiff suggestion={comment.suggestion} />
+          {comment.suggestionAppliedAt ? (
+            <p className="mb-2 text-xs text-muted-foreground" data-testid={`text-suggestion-applied-${comment.id}`}>
+              Applied by {comment.suggestionApplier?.username ?? "a former participant"}{" "}
+              {formatDistanceToNow(new Date(comment.suggestionAppliedAt), { addSuffix: true })}
+            </p>
+          ) : onApplySuggestion && !location.outdated && (
+            <div className="mb-2 flex items-center gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-7 text-xs gap-1"
+                onClick={onApplySuggestion}
+                data-testid={`button-apply-suggestion-${comment.id}`}
+              >
+                <Wand2 className="h-3 w-3" />
+                Apply suggestion
+              </Button>
+              {batched !== undefined && (
+                <label className="flex items-center gap-1 text-xs text-muted-foreground cursor-pointer">
+                  <Checkbox
+                    checked={batched}
+                    onCheckedChange={(checked) => onBatchedChange?.(checked === true)}
+                    data-testid={`checkbox-batch-suggestion-${comment.id}`}
+                  />
+                  Add to batch
+                </label>
+              )}
+            </div>
+          )}
+        </>
+      )}
+      <div className="flex items-center gap-2">
+        <Badge variant="outline" className="text-xs truncate">
+          {location.filePath}:{formatCommentRange(location.range)}
+        </Badge>
+        {location.outdated && (
+          <Badge
+            variant="secondary"
+            className="text-xs shrink-0"
+            title="The code this comment was about has since been changed or deleted"
+            data-testid={`badge-outdated-${comment.id}`}
+          >
+            Outdated
+          </Badge>
+        )}
+        {resolved && (
+          <Badge variant="outline" className="text-xs">
+            <Check className="h-3 w-3 mr-1" />
+            Resolved
+          </Badge>
+        )}
+        {canComment && !resolved && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="ml-auto h-7 text-xs gap-1"
+            onClick={onResolve}
+            data-testid={`button-resolve-${comment.id}`}
+          >
+            <Check className="h-3 w-3" />
+            Resolve
+          </Button>
+        )}
+        {canComment && resolved && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="ml-auto h-7 text-xs gap-1"
+            onClick={onUnresolve}
+            data-testid={`button-unresolve-${comment.id}`}
+          >
+            <X className="h-3 w-3" />
+            Unresolve
+          </Button>
+        )}
+      </div>
+
+      <Collapsible open={isExpanded} onOpenChange={setIsExpanded}>
+        {(replies.length > 0 || canComment) && (
+          <CollapsibleTrigger asChild>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-1 mt-1 text-xs gap-1 text-muted-foreground"
+              data-testid={`button-toggle-thread-${comment.id}`}
+            >
+              {isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+              {replies.length === 0 ? "Reply" : `${replies.length} ${replies.length === 1 ? "reply" : "replies"}`}
+            </Button>
+          </CollapsibleTrigger>
+        )}
+        <CollapsibleContent>
+          {replies.length > 0 && (
+            <div className="mt-2 ml-3 pl-3 border-l space-y-3">
+              {replies.map((reply) => (
+                <div key={reply.id} data-testid={`comment-reply-${reply.id}`}>
+                  <CommentBody comment={reply} {...getOwnerActions(reply)} />
+                </div>
+              ))}
+            </div>
+          )}
+          {canComment && (
+            <div className="mt-2">
+              <Textarea
+                placeholder="Reply..."
+                value={replyText}
+                onChange={(e) => setReplyText(e.target.value)}
+                className="mb-2 resize-none text-sm"
+                rows={2}
+                data-testid={`input-reply-${comment.id}`}
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleSubmitReply}
+                disabled={!replyText.trim()}
+                className="w-full h-7 text-xs gap-1"
+                data-testid={`button-post-reply-${comment.id}`}
+              >
+                <Reply className="h-3 w-3" />
+                Reply
+              </Button>
+            </div>
+          )}
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
 }
 
 export function CommentPanel({
   comments,
   onAddComment,
+  onReplyComment,
   onResolveComment,
   onUnresolveComment,
+  onEditComment,
+  onDeleteComment,
+  currentUserId,
+  onSelectComment,
+  onApplySuggestion,
+  onApplySuggestions,
+  locations,
+  activeCommentId,
+  draftAnchor,
+  onClearDraftAnchor,
+  canComment = true,
 }: CommentPanelProps) {
   const [newCommentText, setNewCommentText] = useState("");
+  // Replacement text while suggesting a change; null for a plain comment
+  const [suggestionText, setSuggestionText] = useState<string | null>(null);
+  const [batchIds, setBatchIds] = useState<string[]>([]);
+
+  // A new selection starts a plain comment again
+  useEffect(() => {
+    setSuggestionText(null);
+  }, [draftAnchor]);
+
+  const canSubmit = Boolean(draftAnchor) && (newCommentText.trim() !== "" || suggestionText !== null);
 
   const handleSubmitComment = () => {
-    if (newCommentText.trim() && onAddComment) {
+    if (canSubmit && draftAnchor && onAddComment) {
       onAddComment(
         newCommentText,
-        "main.ts",
-        { start: { line: 1, col: 0 }, end: { line: 1, col: 0 } }
+        draftAnchor.filePath,
+        draftAnchor.range,
+        suggestionText === null ? undefined : { original: draftAnchor.selectedText, replacement: suggestionText },
       );
       setNewCommentText("");
+      setSuggestionText(null);
+      onClearDraftAnchor?.();
     }
   };
 
-  const openComments = comments.filter((c) => c.status === "open");
-  const resolvedComments = comments.filter((c) => c.status === "resolved");
+  const composer = canComment && (
+    <div className="p-3 border-t">
+      {draftAnchor ? (
+        <div className="flex items-center gap-1 mb-2">
+          <Badge variant="secondary" className="text-xs truncate" data-testid="badge-draft-anchor">
+            {draftAnchor.filePath}:{formatCommentRange(draftAnchor.range)}
+          </Badge>
+          <Button
+            size="sm"
+            variant={suggestionText === null ? "ghost" : "secondary"}
+            className="ml-auto h-6 px-2 text-xs gap-1 shrink-0"
+            onClick={() => setSuggestionText(suggestionText === null ? draftAnchor.selectedText : null)}
+            title="Suggest replacement code for the selection"
+            data-testid="button-toggle-suggestion"
+          >
+            <PencilLine className="h-3 w-3" />
+            Suggest
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-6 w-6 shrink-0"
+            onClick={onClearDraftAnchor}
+            title="Cancel"
+            data-testid="button-clear-draft-anchor"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      ) : (
+        <p className="flex items-center gap-1 mb-2 text-xs text-muted-foreground">
+          <MousePointerClick className="h-3 w-3 shrink-0" />
+          Select code in the editor and choose Comment on Selection
+        </p>
+      )}
+      <Textarea
+        placeholder="Add a comment..."
+        value={newCommentText}
+        onChange={(e) => setNewCommentText(e.target.value)}
+        className="mb-2 resize-none"
+        rows={3}
+        disabled={!draftAnchor}
+        data-testid="input-new-comment"
+      />
+      {suggestionText !== null && (
+        <Textarea
+          value={suggestionText}
+          onChange={(e) => setSuggestionText(e.target.value)}
+          className="mb-2 resize-none font-mono text-xs"
+          rows={4}
+          spellCheck={false}
+          data-testid="input-suggestion"
+        />
+      )}
+      <Button
+        onClick={handleSubmitComment}
+        disabled={!canSubmit}
+        className="w-full"
+        data-testid="button-post-comment"
+      >
+        Post Comment
+      </Button>
+    </div>
+  );
+
+  // Comments arrive oldest first, so replies stay in the order they were written
+  const repliesByThread = new Map<string, CommentWithAuthor[]>();
+  for (const comment of comments) {
+    if (comment.parentId) {
+      repliesByThread.set(comment.parentId, [...(repliesByThread.get(comment.parentId) ?? []), comment]);
+    }
+  }
+  // A deleted comment stays only as the start of a thread that still has replies
+  const threads = comments.filter((c) => !c.parentId && (!c.deletedAt || repliesByThread.has(c.id)));
 
-  if (!comments || comments.length === 0) {
+  const getOwnerActions = (comment: CommentWithAuthor) => comment.authorId === currentUserId && canComment && !comment.deletedAt
+    ? {
+      onEdit: onEditComment && ((text: string) => onEditComment(comment.id, text)),
+      onDelete: onDeleteComment && (() => onDeleteComment(comment.id)),
+    }
+    : {};
+
+  const openThreads = threads.filter((c) => c.status === "open");
+  const resolvedThreads = threads.filter((c) => c.status === "resolved");
+  // Picks drop out once applied or resolved by anyone
+  const pendingBatchIds = batchIds.filter((id) =>
+    openThreads.some((thread) => thread.id === id && thread.suggestion && !thread.suggestionAppliedAt));
+
+  const renderThread = (comment: CommentWithAuthor) => (
+    <CommentThread
+      key={comment.id}
+      comment={comment}
+      replies={repliesByThread.get(comment.id) ?? []}
+      location={locations?.get(comment.id) ?? { filePath: comment.filePath, range: comment.range, outdated: false }}
+      resolved={comment.status === "resolved"}
+      active={comment.id === activeCommentId}
+      onSelect={() => onSelectComment?.(comment)}
+      onApplySuggestion={onApplySuggestion && (() => onApplySuggestion(comment.id))}
+      batched={onApplySuggestions && comment.status === "open" ? batchIds.includes(comment.id) : undefined}
+      onBatchedChange={(batched) => setBatchIds((ids) => batched ? [...ids, comment.id] : ids.filter((id) => id !== comment.id))}
+      onReply={(text) => onReplyComment?.(comment.id, text)}
+      onResolve={() => onResolveComment?.(comment.id)}
+      onUnresolve={() => onUnresolveComment?.(comment.id)}
+      getOwnerActions={getOwnerActions}
+      canComment={canComment}
+    />
+  );
+
+  if (threads.length === 0) {
     return (
       <div className="h-full flex flex-col">
         <div className="p-3 border-b">
@@ -52,153 +610,57 @@ export function CommentPanel({
             Add inline comments to discuss code
           </p>
         </div>
-        <div className="p-3 border-t">
-          <Textarea
-            placeholder="Add a comment..."
-            value={newCommentText}
-            onChange={(e) => setNewCommentText(e.target.value)}
-            className="mb-2 resize-none"
-            rows={3}
-            data-testid="input-new-comment"
-          />
-          <Button
-            onClick={handleSubmitComment}
-            disabled={!newCommentText.trim()}
-            className="w-full"
-            data-testid="button-post-comment"
-          >
-            Post Comment
-          </Button>
-        </div>
+        {composer}
       </div>
     );
   }
 
   return (
     <div className="h-full flex flex-col">
-      <div className="p-3 border-b">
+      <div className="p-3 border-b flex items-center justify-between gap-2">
         <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
           Comments
         </h3>
+        {onApplySuggestions && pendingBatchIds.length > 0 && (
+          <Button
+            size="sm"
+            className="h-7 text-xs gap-1"
+            onClick={() => onApplySuggestions(pendingBatchIds)}
+            data-testid="button-apply-suggestion-batch"
+          >
+            <Wand2 className="h-3 w-3" />
+            Apply {pendingBatchIds.length} as one snapshot
+          </Button>
+        )}
       </div>
 
       <ScrollArea className="flex-1">
         <div className="p-3 space-y-4">
-          {openComments.length > 0 && (
+          {openThreads.length > 0 && (
             <div>
               <h4 className="text-xs font-medium text-muted-foreground mb-2">
-                Open ({openComments.length})
+                Open ({openThreads.length})
               </h4>
               <div className="space-y-3">
-                {openComments.map((comment) => (
-                  <div
-                    key={comment.id}
-                    className="p-3 rounded-md border bg-card"
-                    data-testid={`comment-${comment.id}`}
-                  >
-                    <div className="flex items-start gap-2 mb-2">
-                      <Avatar className="h-6 w-6">
-                        <AvatarImage src={comment.author.avatarUrl || undefined} />
-                        <AvatarFallback className="text-xs">
-                          {comment.author.username.charAt(0).toUpperCase()}
-                        </AvatarFallback>
-                      </Avatar>
-                      <div className="flex-1 min-w-0">
-                        <p className="text-xs font-medium">{comment.author.username}</p>
-                        <p className="text-xs text-muted-foreground">
-                          {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
-                        </p>
-                      </div>
-                    </div>
-                    <p className="text-sm mb-2 whitespace-pre-wrap">{comment.text}</p>
-                    <div className="flex items-center gap-2">
-                      <Badge variant="outline" className="text-xs">
-                        {comment.filePath}
-                      </Badge>
-                      <Button
-                        size="sm"
-                        variant="ghost"
-                        className="ml-auto h-7 text-xs gap-1"
-                        onClick={() => onResolveComment?.(comment.id)}
-                        data-testid={`button-resolve-${comment.id}`}
-                      >
-                        <Check className="h-3 w-3" />
-                        Resolve
-                      </Button>
-                    </div>
-                  </div>
-                ))}
+                {openThreads.map(renderThread)}
               </div>
             </div>
           )}
 
-          {resolvedComments.length > 0 && (
+          {resolvedThreads.length > 0 && (
             <div>
               <h4 className="text-xs font-medium text-muted-foreground mb-2">
-                Resolved ({resolvedComments.length})
+                Resolved ({resolvedThreads.length})
               </h4>
               <div className="space-y-3">
-                {resolvedComments.map((comment) => (
-                  <div
-                    key={comment.id}
-                    className="p-3 rounded-md border bg-muted/50"
-                    data-testid={`comment-resolved-${comment.id}`}
-                  >
-                    <div className="flex items-start gap-2 mb-2">
-                      <Avatar className="h-6 w-6 opacity-60">
-                        <AvatarImage src={comment.author.avatarUrl || undefined} />
-                        <AvatarFallback className="text-xs">
-                          {comment.author.username.charAt(0).toUpperCase()}
-                        </AvatarFallback>
-                      </Avatar>
-                      <div className="flex-1 min-w-0">
-                        <p className="text-xs font-medium opacity-60">{comment.author.username}</p>
-                        <p className="text-xs text-muted-foreground">
-                          {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
-                        </p>
-                      </div>
-                      <Badge variant="outline" className="text-xs">
-                        <Check className="h-3 w-3 mr-1" />
-                        Resolved
-                      </Badge>
-                    </div>
-                    <p className="text-sm opacity-60 mb-2 line-clamp-2">{comment.text}</p>
-                    <Button
-                      size="sm"
-                      variant="ghost"
-                      className="h-7 text-xs gap-1"
-                      onClick={() => onUnresolveComment?.(comment.id)}
-                      data-testid={`button-unresolve-${comment.id}`}
-                    >
-                      <X className="h-3 w-3" />
-                      Unresolve
-                    </Button>
-                  </div>
-                ))}
+                {resolvedThreads.map(renderThread)}
               </div>
             </div>
           )}
         </div>
       </ScrollArea>
 
-      <div className="p-3 border-t">
-        <Textarea
-          placeholder="Add a comment..."
-          value={newCommentText}
-          onChange={(e) => setNewCommentText(e.target.value)}
-          className="mb-2 resize-none"
-          rows={3}
-          data-testid="input-new-comment"
-        />
-        <Button
-          onClick={handleSubmitComment}
-          disabled={!newCommentText.trim()}
-          className="w-full"
-          data-testid="button-post-comment"
-        >
-          Post Comment
-        </Button>
-      </div>
+      {composer}
     </div>
   );
 }
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Copy, Link2, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import type { SessionInvite } from "@shared/schema";
+
+interface InvitePanelProps {
+  sessionId: string;
+}
+
+const expiryOptions = [
+  { hours: 1, label: "1 hour" },
+  { hours: 24, label: "1 day" },
+  { hours: 24 * 7, label: "7 days" },
+  { hours: 24 * 30, label: "30 days" },
+];
+
+export function InvitePanel({ sessionId }: InvitePanelProps) {
+  const { toast } = useToast();
+  const [role, setRole] = useState<"participant" | "observer">("participant");
+  const [expiresInHours, setExpiresInHours] = useState(24);
+  const [withCode, setWithCode] = useState(true);
+
+  const { data: invites } = useQuery<SessionInvite[]>({
+    queryKey: ["/api/sessions", sessionId, "invites"],
+  });
+
+  const createInviteMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/sessions/${sessionId}/invites`, { role, expiresInHours, withCode });
+    },
+    onSuccess: (invite: SessionInvite) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "invites"] });
+      copyLink(invite);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to create invite"),
+      });
+    },
+  });
+
+  const revokeInviteMutation = useMutation({
+    mutationFn: async (inviteId: string) => {
+      return apiRequest("DELETE", `/api/invites/${inviteId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "invites"] });
+      toast({
+        title: "Invite revoked",
+        description: "The link and code no longer work",
+      });
+    },
+  });
+
+  const copyLink = async (invite: SessionInvite) => {
+    const link = `${window.location.origin}/join/${invite.token}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      toast({
+        title: "Invite link copied",
+        description: invite.code ? `Join code: ${invite.code}` : link,
+      });
+    } catch {
+      toast({ title: "Invite link", description: link });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label>Role</Label>
+          <Select value={role} onValueChange={(value) => setRole(value as "participant" | "observer")}>
+            <SelectTrigger data-testid="select-invite-role">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="participant">Participant</SelectItem>
+              <SelectItem value="observer">Observer</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Expires after</Label>
+          <Select value={String(expiresInHours)} onValueChange={(value) => setExpiresInHours(Number(value))}>
+            <SelectTrigger data-testid="select-invite-expiry">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {expiryOptions.map((option) => (
+                <SelectItem key={option.hours} value={String(option.hours)}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="flex items-center justify-between">
+        <Label htmlFor="invite-code">Include a short join code</Label>
+        <Switch id="invite-code" checked={withCode} onCheckedChange={setWithCode} data-testid="switch-invite-code" />
+      </div>
+      <Button
+        className="w-full gap-2"
+        onClick={() => createInviteMutation.mutate()}
+        disabled={createInviteMutation.isPending}
+        data-testid="button-create-invite"
+      >
+        <Link2 className="h-4 w-4" />
+        {createInviteMutation.isPending ? "Creating..." : "Create invite link"}
+      </Button>
+
+      <div className="space-y-2">
+        <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Active invites</h4>
+        {!invites || invites.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No active invites</p>
+        ) : (
+          invites.map((invite) => (
+            <div
+              key={invite.id}
+              className="flex items-center gap-2 p-2 rounded-md border"
+              data-testid={`invite-${invite.id}`}
+            >
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary" className="text-xs capitalize">{invite.role}</Badge>
+                  {invite.code && <span className="font-mono text-sm tracking-widest">{invite.code}</span>}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Expires {formatDistanceToNow(new Date(invite.expiresAt), { addSuffix: true })}
+                  {" · "}
+                  {invite.useCount === 1 ? "used once" : `used ${invite.useCount} times`}
+                </p>
+              </div>
+              <Button size="icon" variant="ghost" onClick={() => copyLink(invite)} data-testid={`button-copy-invite-${invite.id}`}>
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => revokeInviteMutation.mutate(invite.id)}
+                disabled={revokeInviteMutation.isPending}
+                data-testid={`button-revoke-invite-${invite.id}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
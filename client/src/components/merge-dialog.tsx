@@ -0,0 +1,270 @@
+import { useState, useEffect, useMemo } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import Editor from "@monaco-editor/react";
+import { GitMerge, FileText, Trash2, AlertTriangle, Check } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { DiffViewer } from "@/components/diff-viewer";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { getLanguageFromPath } from "@/lib/editor";
+import {
+  getConflicts,
+  getUnresolvedConflicts,
+  joinLines,
+  resolveFileMerge,
+  type ConflictChoice,
+  type FileMerge,
+  type MergePreview,
+  type MergeResolutions,
+} from "@shared/merge";
+
+interface MergeDialogProps {
+  sessionId: string;
+  /** The snapshot being merged into, normally the session's head */
+  oursId: string;
+  theirsId: string | null;
+  theirsLabel?: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+const choiceLabels: Record<ConflictChoice, string> = {
+  ours: "Ours",
+  theirs: "Theirs",
+  both: "Both",
+};
+
+function ConflictCard({
+  file,
+  conflict,
+  choice,
+  onChoose,
+}: {
+  file: FileMerge;
+  conflict: ReturnType<typeof getConflicts>[number];
+  choice?: ConflictChoice;
+  onChoose: (choice: ConflictChoice) => void;
+}) {
+  // For a delete/modify conflict, "ours" or "theirs" may mean deleting the file
+  const describe = (side: "ours" | "theirs") => file.deletedIn === side ? `Delete (${side})` : choiceLabels[side];
+
+  return (
+    <div className="border rounded-md overflow-hidden" data-testid={`conflict-${file.path}-${conflict.id}`}>
+      <div className="flex items-center gap-2 px-3 py-2 border-b bg-muted/50">
+        <span className="text-xs font-medium">Conflict {conflict.id + 1}</span>
+        <span className="text-xs text-muted-foreground">ours on the left, theirs on the right</span>
+        <div className="ml-auto flex items-center gap-1">
+          {(["ours", "theirs", "both"] as const).map((option) => (
+            <Button
+              key={option}
+              size="sm"
+              variant={choice === option ? "default" : "outline"}
+              onClick={() => onChoose(option)}
+              data-testid={`button-choose-${option}-${conflict.id}`}
+            >
+              {option === "both" ? (file.deletedIn ? "Keep" : choiceLabels.both) : describe(option)}
+            </Button>
+          ))}
+        </div>
+      </div>
+      <div className="h-40">
+        <DiffViewer oldContent={joinLines(conflict.ours)} newContent={joinLines(conflict.theirs)} />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Merges a snapshot into another against their common ancestor. Clean
+ * changes are combined automatically; each conflict is settled by picking
+ * ours, theirs or both, with the resulting file previewed in Monaco.
+ */
+export function MergeDialog({ sessionId, oursId, theirsId, theirsLabel, onOpenChange }: MergeDialogProps) {
+  const { toast } = useToast();
+  const [resolutions, setResolutions] = useState<MergeResolutions>({});
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [description, setDescription] = useState("");
+
+  const { data: preview, isLoading } = useQuery<MergePreview>({
+    queryKey: ["/api/snapshots", oursId, "merge", theirsId],
+    enabled: Boolean(theirsId),
+  });
+
+  useEffect(() => {
+    setResolutions({});
+    setDescription("");
+    setSelectedPath(null);
+  }, [oursId, theirsId]);
+
+  useEffect(() => {
+    if (preview && !selectedPath && preview.files.length > 0) {
+      const firstConflicted = preview.files.find((file) => file.status === "conflicted");
+      setSelectedPath((firstConflicted ?? preview.files[0]).path);
+    }
+  }, [preview, selectedPath]);
+
+  const unresolvedCount = useMemo(
+    () => (preview?.files ?? []).reduce((sum, file) => sum + getUnresolvedConflicts(file, resolutions[file.path]).length, 0),
+    [preview, resolutions],
+  );
+
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/snapshots/${oursId}/merge/${theirsId}`, {
+        description: description.trim() || undefined,
+        resolutions,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "snapshots"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId], exact: true });
+      toast({
+        title: "Merged",
+        description: "The merge result is now in the editor",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to merge snapshots"),
+      });
+    },
+  });
+
+  const choose = (path: string, conflictId: number, choice: ConflictChoice) => {
+    setResolutions((current) => ({ ...current, [path]: { ...current[path], [conflictId]: choice } }));
+  };
+
+  const selectedFile = preview?.files.find((file) => file.path === selectedPath) ?? null;
+  const resolvedContent = selectedFile ? resolveFileMerge(selectedFile, resolutions[selectedFile.path]) : null;
+
+  return (
+    <Dialog open={Boolean(theirsId)} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl h-[85vh] flex flex-col" data-testid="dialog-merge">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5" />
+            Merge {theirsLabel ? `"${theirsLabel}"` : "snapshot"}
+          </DialogTitle>
+          <DialogDescription>
+            {preview && !preview.baseSnapshotId
+              ? "These snapshots share no history, so every difference is treated as a conflict."
+              : "Non-overlapping changes are combined automatically. Pick a side for each conflict."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !preview ? (
+          <div className="flex-1 flex items-center justify-center text-sm text-muted-foreground">Computing merge...</div>
+        ) : preview.files.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-sm text-muted-foreground">
+            Nothing to merge: the result would be identical to the current head.
+          </div>
+        ) : (
+          <div className="flex-1 flex gap-4 min-h-0">
+            <ScrollArea className="w-64 shrink-0 border rounded-md">
+              <div className="p-2 space-y-1">
+                {preview.files.map((file) => {
+                  const unresolved = getUnresolvedConflicts(file, resolutions[file.path]).length;
+                  return (
+                    <button
+                      key={file.path}
+                      className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-left text-sm hover-elevate ${
+                        file.path === selectedPath ? "bg-accent" : ""
+                      }`}
+                      onClick={() => setSelectedPath(file.path)}
+                      data-testid={`merge-file-${file.path}`}
+                    >
+                      {file.status === "deleted" ? (
+                        <Trash2 className="h-4 w-4 shrink-0 text-muted-foreground" />
+                      ) : (
+                        <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                      )}
+                      <span className="flex-1 truncate">{file.path}</span>
+                      {file.status === "conflicted" && (unresolved > 0 ? (
+                        <Badge variant="destructive" className="text-xs">{unresolved}</Badge>
+                      ) : (
+                        <Check className="h-4 w-4 text-green-600" />
+                      ))}
+                    </button>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+
+            {selectedFile && (
+              <div className="flex-1 flex flex-col gap-3 min-w-0 min-h-0">
+                {selectedFile.status === "conflicted" && (
+                  <ScrollArea className="max-h-[45%]">
+                    <div className="space-y-3 pr-3">
+                      {getConflicts(selectedFile).map((conflict) => (
+                        <ConflictCard
+                          key={conflict.id}
+                          file={selectedFile}
+                          conflict={conflict}
+                          choice={resolutions[selectedFile.path]?.[conflict.id]}
+                          onChoose={(choice) => choose(selectedFile.path, conflict.id, choice)}
+                        />
+                      ))}
+                    </div>
+                  </ScrollArea>
+                )}
+                <div className="flex-1 min-h-[12rem] border rounded-md overflow-hidden bg-[#1e1e1e]">
+                  {resolvedContent === null ? (
+                    <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+                      This file is deleted by the merge
+                    </div>
+                  ) : (
+                    <Editor
+                      height="100%"
+                      language={getLanguageFromPath(selectedFile.path)}
+                      path={`merge/${selectedFile.path}`}
+                      value={resolvedContent}
+                      theme="vs-dark"
+                      options={{
+                        readOnly: true,
+                        minimap: { enabled: false },
+                        fontSize: 13,
+                        fontFamily: "'Fira Code', 'Monaco', monospace",
+                        scrollBeyondLastLine: false,
+                        automaticLayout: true,
+                      }}
+                    />
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:items-center">
+          {unresolvedCount > 0 && (
+            <span className="mr-auto flex items-center gap-1 text-sm text-muted-foreground">
+              <AlertTriangle className="h-4 w-4 text-amber-500" />
+              {unresolvedCount} {unresolvedCount === 1 ? "conflict" : "conflicts"} left
+            </span>
+          )}
+          <Input
+            placeholder="Merge description (optional)"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            className="sm:w-72"
+            data-testid="input-merge-description"
+          />
+          <Button
+            onClick={() => mergeMutation.mutate()}
+            disabled={!preview || preview.files.length === 0 || unresolvedCount > 0 || mergeMutation.isPending}
+            data-testid="button-confirm-merge"
+          >
+            <GitMerge className="h-4 w-4 mr-1" />
+            {mergeMutation.isPending ? "Merging..." : "Create merge snapshot"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
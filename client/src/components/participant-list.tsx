@@ -1,11 +1,21 @@
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Users } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { getPresenceColor } from "@/lib/presence";
 import type { User } from "@shared/schema";
+import type { PresenceStatus } from "@shared/protocol";
+
+export interface UserPresence {
+  status: PresenceStatus;
+  filePath: string | null;
+}
 
 interface Participant {
   id: string;
+  userId: string;
   user: User;
   role: string;
   isOnline?: boolean;
@@ -13,10 +23,30 @@ interface Participant {
 
 interface ParticipantListProps {
   participants: Participant[];
+  /** Live presence by user id; anyone missing is offline. Falls back to `isOnline` when omitted */
+  presence?: Record<string, UserPresence>;
   variant?: "compact" | "detailed";
+  onChangeRole?: (userId: string, role: "participant" | "observer") => void;
 }
 
-export function ParticipantList({ participants, variant = "compact" }: ParticipantListProps) {
+function describePresence(participant: Participant, presence?: UserPresence) {
+  if (presence) {
+    const file = presence.filePath?.split("/").pop();
+    const status = presence.status === "idle" ? "Idle" : "Active";
+    return file ? `${status} in ${file}` : status;
+  }
+  if (participant.user.lastSeen) {
+    return `Last seen ${formatDistanceToNow(new Date(participant.user.lastSeen), { addSuffix: true })}`;
+  }
+  return "Offline";
+}
+
+export function ParticipantList({ participants, presence, variant = "compact", onChangeRole }: ParticipantListProps) {
+  const getPresence = (participant: Participant) => presence?.[participant.userId];
+  const isOnline = (participant: Participant) => presence ? Boolean(getPresence(participant)) : Boolean(participant.isOnline);
+  const statusDotClass = (participant: Participant) =>
+    getPresence(participant)?.status === "idle" ? "bg-amber-500" : "bg-green-500";
+
   if (!participants || participants.length === 0) {
     return (
       <div className="p-4">
@@ -38,14 +68,17 @@ export function ParticipantList({ participants, variant = "compact" }: Participa
           <Tooltip key={participant.id}>
             <TooltipTrigger asChild>
               <div className="relative">
-                <Avatar className="h-8 w-8 border-2 border-background">
+                <Avatar
+                  className="h-8 w-8 border-2 border-background"
+                  style={isOnline(participant) ? { borderColor: getPresenceColor(participant.userId) } : undefined}
+                >
                   <AvatarImage src={participant.user.avatarUrl || undefined} />
-                  <AvatarFallback className="text-xs">
+                  <AvatarFallback className="text-xs text-white" style={{ backgroundColor: getPresenceColor(participant.userId) }}>
                     {participant.user.username.charAt(0).toUpperCase()}
                   </AvatarFallback>
                 </Avatar>
-                {participant.isOnline && (
-                  <span className="absolute bottom-0 right-0 w-2.5 h-2.5 bg-green-500 border-2 border-background rounded-full" />
+                {isOnline(participant) && (
+                  <span className={`absolute bottom-0 right-0 w-2.5 h-2.5 ${statusDotClass(participant)} border-2 border-background rounded-full`} />
                 )}
               </div>
             </TooltipTrigger>
@@ -53,6 +86,7 @@ export function ParticipantList({ participants, variant = "compact" }: Participa
               <div className="text-xs">
                 <p className="font-medium">{participant.user.username}</p>
                 <p className="text-muted-foreground capitalize">{participant.role}</p>
+                <p className="text-muted-foreground">{describePresence(participant, getPresence(participant))}</p>
               </div>
             </TooltipContent>
           </Tooltip>
@@ -75,22 +109,42 @@ export function ParticipantList({ participants, variant = "compact" }: Participa
           data-testid={`participant-${participant.id}`}
         >
           <div className="relative">
-            <Avatar className="h-8 w-8">
+            <Avatar
+              className="h-8 w-8 border-2 border-transparent"
+              style={isOnline(participant) ? { borderColor: getPresenceColor(participant.userId) } : undefined}
+            >
               <AvatarImage src={participant.user.avatarUrl || undefined} />
-              <AvatarFallback className="text-xs">
+              <AvatarFallback className="text-xs text-white" style={{ backgroundColor: getPresenceColor(participant.userId) }}>
                 {participant.user.username.charAt(0).toUpperCase()}
               </AvatarFallback>
             </Avatar>
-            {participant.isOnline && (
-              <span className="absolute bottom-0 right-0 w-2 h-2 bg-green-500 border-2 border-background rounded-full" />
+            {isOnline(participant) && (
+              <span className={`absolute bottom-0 right-0 w-2 h-2 ${statusDotClass(participant)} border-2 border-background rounded-full`} />
             )}
           </div>
           <div className="flex-1 min-w-0">
             <p className="text-sm font-medium truncate">{participant.user.username}</p>
-            <p className="text-xs text-muted-foreground capitalize">{participant.role}</p>
+            <p className="text-xs text-muted-foreground truncate">
+              <span className="capitalize">{participant.role}</span>
+              {" · "}
+              {describePresence(participant, getPresence(participant))}
+            </p>
           </div>
-          {participant.role === "host" && (
+          {participant.role === "host" ? (
             <Badge variant="secondary" className="text-xs">Host</Badge>
+          ) : onChangeRole && (
+            <Select
+              value={participant.role}
+              onValueChange={(role) => onChangeRole(participant.userId, role as "participant" | "observer")}
+            >
+              <SelectTrigger className="h-7 w-28 text-xs" data-testid={`select-role-${participant.id}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="participant" className="text-xs">Participant</SelectItem>
+                <SelectItem value="observer" className="text-xs">Observer</SelectItem>
+              </SelectContent>
+            </Select>
           )}
         </div>
       ))}
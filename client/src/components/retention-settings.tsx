@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Eye, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import type { RetentionPolicy } from "@shared/schema";
+
+interface RetentionSettingsProps {
+  projectId: string;
+}
+
+interface RetentionResponse {
+  policy: RetentionPolicy | null;
+  lastRun: { at: string; deleted: number; reclaimedBytes: number } | null;
+}
+
+interface RetentionPreview {
+  snapshotCount: number;
+  blobCount: number;
+  reclaimedBytes: number;
+  snapshots: { id: string; sessionId: string; description: string | null; timestamp: string }[];
+}
+
+const defaultPolicy: RetentionPolicy = { enabled: true, keepAllHours: 24, keepHourlyDays: 7 };
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Edits how the project's automatic snapshots are thinned out over time, with
+ * a preview of what the policy would delete right now.
+ */
+export function RetentionSettings({ projectId }: RetentionSettingsProps) {
+  const { toast } = useToast();
+  const [enabled, setEnabled] = useState(false);
+  const [keepAllHours, setKeepAllHours] = useState(String(defaultPolicy.keepAllHours));
+  const [keepHourlyDays, setKeepHourlyDays] = useState(String(defaultPolicy.keepHourlyDays));
+  const [preview, setPreview] = useState<RetentionPreview | null>(null);
+
+  const { data } = useQuery<RetentionResponse>({
+    queryKey: ["/api/projects", projectId, "retention"],
+  });
+
+  useEffect(() => {
+    const policy = data?.policy;
+    setEnabled(policy?.enabled ?? false);
+    setKeepAllHours(String(policy?.keepAllHours ?? defaultPolicy.keepAllHours));
+    setKeepHourlyDays(String(policy?.keepHourlyDays ?? defaultPolicy.keepHourlyDays));
+  }, [data]);
+
+  const policy = { enabled, keepAllHours: Number(keepAllHours), keepHourlyDays: Number(keepHourlyDays) };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/projects/${projectId}/retention/dry-run`, policy);
+    },
+    onSuccess: (result: RetentionPreview) => setPreview(result),
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to preview retention"),
+      });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PUT", `/api/projects/${projectId}/retention`, policy);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "retention"] });
+      toast({
+        title: "Retention updated",
+        description: enabled ? "Old automatic snapshots are thinned out every hour" : "All snapshots are kept",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to update retention"),
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Manual, pinned, tagged and commented-on snapshots are always kept, as is each session's head.
+      </p>
+      <div className="flex items-center justify-between">
+        <Label htmlFor="retention-enabled">Thin out automatic snapshots</Label>
+        <Switch id="retention-enabled" checked={enabled} onCheckedChange={setEnabled} data-testid="switch-retention-enabled" />
+      </div>
+      <div className="flex items-center gap-3">
+        <Label htmlFor="retention-keep-all" className="w-40">Keep all for</Label>
+        <Input
+          id="retention-keep-all"
+          type="number"
+          min={1}
+          value={keepAllHours}
+          onChange={(e) => setKeepAllHours(e.target.value)}
+          className="w-24"
+          data-testid="input-retention-keep-all"
+        />
+        <span className="text-sm text-muted-foreground">hours</span>
+      </div>
+      <div className="flex items-center gap-3">
+        <Label htmlFor="retention-keep-hourly" className="w-40">Then one per hour for</Label>
+        <Input
+          id="retention-keep-hourly"
+          type="number"
+          min={1}
+          value={keepHourlyDays}
+          onChange={(e) => setKeepHourlyDays(e.target.value)}
+          className="w-24"
+          data-testid="input-retention-keep-hourly"
+        />
+        <span className="text-sm text-muted-foreground">days, then one per day</span>
+      </div>
+
+      {preview && (
+        <div className="rounded-md border p-3 space-y-2" data-testid="retention-preview">
+          <p className="text-sm">
+            {preview.snapshotCount === 0
+              ? "Nothing would be deleted right now."
+              : `${preview.snapshotCount} ${preview.snapshotCount === 1 ? "snapshot" : "snapshots"} would be deleted, freeing ${formatBytes(preview.reclaimedBytes)}.`}
+          </p>
+          {preview.snapshots.length > 0 && (
+            <ScrollArea className="max-h-40">
+              <ul className="space-y-1 text-xs text-muted-foreground">
+                {preview.snapshots.map((snapshot) => (
+                  <li key={snapshot.id} className="truncate">
+                    {snapshot.description || "Unnamed snapshot"} · {formatDistanceToNow(new Date(snapshot.timestamp), { addSuffix: true })}
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+          )}
+        </div>
+      )}
+
+      {data?.lastRun && (
+        <p className="text-xs text-muted-foreground">
+          Last run {formatDistanceToNow(new Date(data.lastRun.at), { addSuffix: true })}: deleted {data.lastRun.deleted} snapshots,
+          reclaimed {formatBytes(data.lastRun.reclaimedBytes)}
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          className="flex-1 gap-2"
+          onClick={() => previewMutation.mutate()}
+          disabled={previewMutation.isPending}
+          data-testid="button-preview-retention"
+        >
+          <Eye className="h-4 w-4" />
+          {previewMutation.isPending ? "Checking..." : "Preview"}
+        </Button>
+        <Button
+          className="flex-1 gap-2"
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending}
+          data-testid="button-save-retention"
+        >
+          <Save className="h-4 w-4" />
+          {saveMutation.isPending ? "Saving..." : "Save"}
+        </Button>
+      </div>
+    </div>
+  );
+}
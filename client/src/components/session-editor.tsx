@@ -1,12 +1,38 @@
 import { useState, useRef, useEffect } from "react";
-import Editor from "@monaco-editor/react";
+import Editor, { type Monaco } from "@monaco-editor/react";
 import type { editor } from "monaco-editor";
+import * as Y from "yjs";
 import { Button } from "@/components/ui/button";
-import { Camera, Play, StopCircle, ChevronRight, ChevronDown, Folder, FolderOpen, FileText } from "lucide-react";
+import { Camera, Play, StopCircle, ChevronRight, ChevronDown, Folder, FolderOpen, FileText, Wifi, WifiOff, MessageSquarePlus } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { bindMonacoModel } from "@/lib/collab";
+import { getLanguageFromPath } from "@/lib/editor";
+import type { ConnectionState } from "@/lib/session-socket";
+import { DEFAULT_FILES, getFilesMap } from "@shared/collab";
+import { formatCommentRange, type CommentRange } from "@shared/comments";
+
+export type RemoteCursor = {
+  userId: string;
+  name: string;
+  color: string;
+  filePath: string;
+  /** Y.RelativePosition JSON, so the cursor stays put while others type */
+  anchor: unknown;
+  head: unknown;
+};
+
+/** A comment thread as marked in the gutter */
+export type EditorComment = {
+  id: string;
+  filePath: string;
+  range: CommentRange;
+  text: string;
+  authorName: string;
+  replyCount: number;
+};
 
 type FileNode = {
   name: string;
@@ -19,57 +45,289 @@ type FileNode = {
 interface SessionEditorProps {
   sessionId: string;
   initialFiles?: FileNode[];
+  /** Live document; when set, file contents come from it and edits are merged through it */
+  doc?: Y.Doc;
   onCodeChange?: (code: string, filePath: string) => void;
+  onCursorChange?: (filePath: string, anchor: unknown, head: unknown) => void;
+  onActiveFileChange?: (filePath: string | null) => void;
+  remoteCursors?: RemoteCursor[];
   onTakeSnapshot?: (description: string) => void;
   onEndSession?: () => void;
   currentUserId?: string;
+  /** Shown as a badge while the live connection is not fully up */
+  connectionState?: ConnectionState;
   readOnly?: boolean;
+  comments?: EditorComment[];
+  /** Called with the selection (or the caret's line) and its text when the user asks to comment on it */
+  onRequestComment?: (filePath: string, range: CommentRange, text: string) => void;
+  /** Called when a comment's gutter marker is clicked */
+  onCommentClick?: (commentId: string) => void;
+  /** Opens the file and selects the range; pass a new `key` to reveal the same range again */
+  revealTarget?: { filePath: string; range: CommentRange; key: number } | null;
 }
 
+const defaultFiles: FileNode[] = Object.entries(DEFAULT_FILES).map(([path, content]) => ({
+  name: path,
+  path,
+  type: "file",
+  content,
+}));
+
 export function SessionEditor({
   sessionId,
   initialFiles = [],
+  doc,
   onCodeChange,
+  onCursorChange,
+  onActiveFileChange,
+  remoteCursors = [],
   onTakeSnapshot,
   onEndSession,
   currentUserId,
+  connectionState,
   readOnly = false,
+  comments = [],
+  onRequestComment,
+  onCommentClick,
+  revealTarget,
 }: SessionEditorProps) {
-  const defaultFiles: FileNode[] = [
-    {
-      name: "main.ts",
-      path: "main.ts",
-      type: "file",
-      content: "// Start coding...\n\nfunction main() {\n  console.log('Hello, Pairwise!');\n}\n\nmain();\n",
-    },
-  ];
-  
-  const [files, setFiles] = useState<FileNode[]>(initialFiles.length > 0 ? initialFiles : defaultFiles);
-  const [currentFile, setCurrentFile] = useState<FileNode | null>(files[0] || null);
-  const [editorContent, setEditorContent] = useState<string>(files[0]?.content || "");
+  const files = initialFiles.length > 0 ? initialFiles : defaultFiles;
+  const [currentPath, setCurrentPath] = useState<string | null>(null);
+  const currentFile = files.find((f) => f.path === currentPath) ?? files[0] ?? null;
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
   const [isSnapshotDialogOpen, setIsSnapshotDialogOpen] = useState(false);
   const [snapshotDescription, setSnapshotDescription] = useState("");
+  const [isEditorReady, setIsEditorReady] = useState(false);
   const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
+  const onCodeChangeRef = useRef(onCodeChange);
+  onCodeChangeRef.current = onCodeChange;
+  const onCursorChangeRef = useRef(onCursorChange);
+  onCursorChangeRef.current = onCursorChange;
+  const cursorDecorationsRef = useRef<editor.IEditorDecorationsCollection | null>(null);
+  const commentDecorationsRef = useRef<editor.IEditorDecorationsCollection | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+  const currentPathRef = useRef<string | null>(null);
+  currentPathRef.current = currentFile?.path ?? null;
+  const commentsRef = useRef(comments);
+  commentsRef.current = comments;
+  const onRequestCommentRef = useRef(onRequestComment);
+  onRequestCommentRef.current = onRequestComment;
+  const onCommentClickRef = useRef(onCommentClick);
+  onCommentClickRef.current = onCommentClick;
+  const revealedKeyRef = useRef<number | null>(null);
 
-  const handleEditorMount = (editor: editor.IStandaloneCodeEditor) => {
+  useEffect(() => {
+    onActiveFileChange?.(currentFile?.path ?? null);
+  }, [currentFile?.path]);
+
+  const handleEditorMount = (editor: editor.IStandaloneCodeEditor, monaco: Monaco) => {
     editorRef.current = editor;
+    monacoRef.current = monaco;
+    cursorDecorationsRef.current = editor.createDecorationsCollection();
+    commentDecorationsRef.current = editor.createDecorationsCollection();
+
+    editor.onMouseDown((event) => {
+      if (event.target.type !== monaco.editor.MouseTargetType.GUTTER_GLYPH_MARGIN) return;
+      const line = event.target.position?.lineNumber;
+      const comment = commentsRef.current.find((candidate) =>
+        candidate.filePath === currentPathRef.current && candidate.range.start.line === line);
+      if (comment) onCommentClickRef.current?.(comment.id);
+    });
+
+    setIsEditorReady(true);
     editor.focus();
   };
 
-  const handleEditorChange = (value: string | undefined) => {
-    if (value !== undefined) {
-      setEditorContent(value);
-      
-      if (currentFile) {
-        setFiles(prev => prev.map(f => 
-          f.path === currentFile.path ? { ...f, content: value } : f
-        ));
-        
-        if (onCodeChange) {
-          onCodeChange(value, currentFile.path);
-        }
+  const requestComment = () => {
+    const editorInstance = editorRef.current;
+    const model = editorInstance?.getModel();
+    const selection = editorInstance?.getSelection();
+    const path = currentPathRef.current;
+    if (!model || !selection || !path) return;
+
+    // A bare caret comments on its whole line
+    const range: CommentRange = selection.isEmpty()
+      ? {
+        start: { line: selection.startLineNumber, col: 0 },
+        end: { line: selection.startLineNumber, col: model.getLineMaxColumn(selection.startLineNumber) - 1 },
       }
+      : {
+        start: { line: selection.startLineNumber, col: selection.startColumn - 1 },
+        end: { line: selection.endLineNumber, col: selection.endColumn - 1 },
+      };
+    onRequestCommentRef.current?.(path, range, model.getValueInRange({
+      startLineNumber: range.start.line,
+      startColumn: range.start.col + 1,
+      endLineNumber: range.end.line,
+      endColumn: range.end.col + 1,
+    }));
+  };
+
+  // "Add Comment" in the context menu and on Ctrl/Cmd+Alt+M, while commenting is allowed
+  const canRequestComment = Boolean(onRequestComment);
+  useEffect(() => {
+    const editorInstance = editorRef.current;
+    const monaco = monacoRef.current;
+    if (!isEditorReady || !editorInstance || !monaco || !canRequestComment) return;
+
+    const action = editorInstance.addAction({
+      id: "pairwise.add-comment",
+      label: "Add Comment",
+      keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyMod.Alt | monaco.KeyCode.KeyM],
+      contextMenuGroupId: "navigation",
+      run: requestComment,
+    });
+    return () => action.dispose();
+  }, [isEditorReady, canRequestComment]);
+
+  // Mark commented lines in the gutter and the commented text itself, both with a preview on hover
+  useEffect(() => {
+    const decorations = commentDecorationsRef.current;
+    const path = currentFile?.path;
+    if (!decorations || !isEditorReady) return;
+
+    decorations.set(comments
+      .filter((comment) => comment.filePath === path)
+      .flatMap((comment): editor.IModelDeltaDecoration[] => {
+        const replies = comment.replyCount === 0 ? "" : `\n\n_${comment.replyCount} ${comment.replyCount === 1 ? "reply" : "replies"}_`;
+        const hoverMessage = { value: `**${comment.authorName}** · ${formatCommentRange(comment.range)}\n\n${comment.text}${replies}` };
+        const { start, end } = comment.range;
+        return [
+          {
+            range: { startLineNumber: start.line, startColumn: 1, endLineNumber: start.line, endColumn: 1 },
+            options: { glyphMarginClassName: "comment-glyph", glyphMarginHoverMessage: hoverMessage },
+          },
+          {
+            range: { startLineNumber: start.line, startColumn: start.col + 1, endLineNumber: end.line, endColumn: end.col + 1 },
+            options: { inlineClassName: "comment-range", hoverMessage, stickiness: 1 },
+          },
+        ];
+      }));
+  }, [isEditorReady, currentFile?.path, comments]);
+
+  // Switch to the target's file first; the reveal happens once its model is showing
+  useEffect(() => {
+    const editorInstance = editorRef.current;
+    if (!revealTarget || revealedKeyRef.current === revealTarget.key) return;
+    if (currentFile?.path !== revealTarget.filePath) {
+      setCurrentPath(revealTarget.filePath);
+      return;
+    }
+    if (!isEditorReady || !editorInstance) return;
+
+    revealedKeyRef.current = revealTarget.key;
+    const { start, end } = revealTarget.range;
+    const range = { startLineNumber: start.line, startColumn: start.col + 1, endLineNumber: end.line, endColumn: end.col + 1 };
+    editorInstance.setSelection(range);
+    editorInstance.revealRangeInCenterIfOutsideViewport(range);
+    editorInstance.focus();
+  }, [revealTarget, currentFile?.path, isEditorReady]);
+
+  // Bind whichever model the editor shows to that file's shared text
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    const path = currentFile?.path;
+    if (!doc || !isEditorReady || !model || !path) return;
+
+    const ytext = getFilesMap(doc).get(path);
+    if (!ytext) return;
+
+    return bindMonacoModel(ytext, model, (content) => onCodeChangeRef.current?.(content, path));
+  }, [doc, isEditorReady, currentFile?.path]);
+
+  // Publish our caret and selection, including when we move to another file
+  useEffect(() => {
+    const editorInstance = editorRef.current;
+    const path = currentFile?.path;
+    if (!doc || !isEditorReady || !editorInstance || !path) return;
+
+    const ytext = getFilesMap(doc).get(path);
+    if (!ytext) return;
+
+    const publish = () => {
+      const model = editorInstance.getModel();
+      const selection = editorInstance.getSelection();
+      if (!model || !selection) return;
+
+      const toRelative = (offset: number) =>
+        Y.relativePositionToJSON(Y.createRelativePositionFromTypeIndex(ytext, offset));
+      onCursorChangeRef.current?.(
+        path,
+        toRelative(model.getOffsetAt(selection.getSelectionStart())),
+        toRelative(model.getOffsetAt(selection.getPosition())),
+      );
+    };
+
+    publish();
+    const listener = editorInstance.onDidChangeCursorSelection(publish);
+    return () => listener.dispose();
+  }, [doc, isEditorReady, currentFile?.path]);
+
+  // Render collaborators' carets and selections in the open file
+  useEffect(() => {
+    const decorations = cursorDecorationsRef.current;
+    const model = editorRef.current?.getModel();
+    const path = currentFile?.path;
+    if (!decorations || !isEditorReady) return;
+    if (!doc || !model || !path) {
+      decorations.clear();
+      return;
+    }
+
+    const render = () => {
+      const toPosition = (relative: unknown) => {
+        const absolute = Y.createAbsolutePositionFromRelativePosition(
+          Y.createRelativePositionFromJSON(relative),
+          doc,
+        );
+        return absolute ? model.getPositionAt(absolute.index) : null;
+      };
+
+      decorations.set(remoteCursors
+        .filter((cursor) => cursor.filePath === path)
+        .flatMap((cursor) => {
+          const anchor = toPosition(cursor.anchor);
+          const head = toPosition(cursor.head);
+          if (!anchor || !head) return [];
+
+          const key = cursorClassKey(cursor.userId);
+          const caret: editor.IModelDeltaDecoration = {
+            range: { startLineNumber: head.lineNumber, startColumn: head.column, endLineNumber: head.lineNumber, endColumn: head.column },
+            options: {
+              beforeContentClassName: `remote-caret remote-caret-${key}`,
+              hoverMessage: { value: cursor.name },
+              stickiness: 1, // NeverGrowsWhenTypingAtEdges
+            },
+          };
+          if (anchor.equals(head)) return [caret];
+
+          const [start, end] = anchor.isBefore(head) ? [anchor, head] : [head, anchor];
+          return [
+            {
+              range: { startLineNumber: start.lineNumber, startColumn: start.column, endLineNumber: end.lineNumber, endColumn: end.column },
+              options: { className: `remote-selection-${key}`, stickiness: 1 },
+            },
+            caret,
+          ];
+        }));
+    };
+
+    render();
+    doc.on("afterTransaction", render);
+    return () => doc.off("afterTransaction", render);
+  }, [doc, isEditorReady, currentFile?.path, remoteCursors]);
+
+  const cursorStyles = remoteCursors.map((cursor) => {
+    const key = cursorClassKey(cursor.userId);
+    const label = cursor.name.replace(/["\\]/g, "\\$&");
+    return `.remote-caret-${key} { border-color: ${cursor.color}; }
+.remote-caret-${key}::after { content: "${label}"; background: ${cursor.color}; }
+.remote-selection-${key} { background: ${cursor.color}33; }`;
+  }).join("\n");
+
+  const handleEditorChange = (value: string | undefined) => {
+    if (value !== undefined && currentFile) {
+      onCodeChange?.(value, currentFile.path);
     }
   };
 
@@ -127,14 +385,23 @@ export function SessionEditor({
             isSelected ? "bg-accent" : ""
           }`}
           style={{ paddingLeft: `${depth * 12 + 24}px` }}
-          onClick={() => {
-            setCurrentFile(node);
-            setEditorContent(node.content || "");
-          }}
+          onClick={() => setCurrentPath(node.path)}
           data-testid={`file-${node.path}`}
         >
           <FileText className="h-4 w-4 text-muted-foreground" />
           <span>{node.name}</span>
+          <div className="ml-auto flex items-center gap-0.5">
+            {remoteCursors
+              .filter((cursor) => cursor.filePath === node.path)
+              .map((cursor) => (
+                <span
+                  key={cursor.userId}
+                  className="w-2 h-2 rounded-full"
+                  style={{ backgroundColor: cursor.color }}
+                  title={cursor.name}
+                />
+              ))}
+          </div>
         </div>
       );
     });
@@ -152,29 +419,9 @@ export function SessionEditor({
     setIsSnapshotDialogOpen(false);
   };
 
-  const getLanguageFromPath = (path: string) => {
-    const ext = path.split(".").pop()?.toLowerCase();
-    const langMap: Record<string, string> = {
-      ts: "typescript",
-      tsx: "typescript",
-      js: "javascript",
-      jsx: "javascript",
-      json: "json",
-      html: "html",
-      css: "css",
-      py: "python",
-      java: "java",
-      cpp: "cpp",
-      c: "c",
-      go: "go",
-      rs: "rust",
-      md: "markdown",
-    };
-    return langMap[ext || ""] || "typescript";
-  };
-
   return (
     <div className="flex h-[calc(100vh-3.5rem)] overflow-hidden">
+      <style>{cursorStyles}</style>
       <div className="w-64 border-r bg-card flex flex-col">
         <div className="p-3 border-b">
           <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
@@ -193,21 +440,50 @@ export function SessionEditor({
                 <span className="text-sm font-medium">{currentFile.name}</span>
               </div>
             )}
+            {connectionState === "connected" && (
+              <Badge variant="outline" className="gap-1 text-xs" data-testid="badge-connection-state">
+                <Wifi className="h-3 w-3 text-green-500" />
+                Connected
+              </Badge>
+            )}
+            {connectionState && connectionState !== "connected" && (
+              <Badge variant="secondary" className="gap-1 text-xs" data-testid="badge-connection-state">
+                <WifiOff className="h-3 w-3 animate-pulse" />
+                {connectionState === "connecting" ? "Connecting…" : "Reconnecting…"}
+              </Badge>
+            )}
           </div>
           <div className="flex items-center gap-2">
-            <Tooltip>
-              <TooltipTrigger asChild>
-                <Button
-                  size="sm"
-                  variant="outline"
-                  onClick={handleTakeSnapshot}
-                  data-testid="button-take-snapshot"
-                >
-                  <Camera className="h-4 w-4" />
-                </Button>
-              </TooltipTrigger>
-              <TooltipContent>Take Snapshot</TooltipContent>
-            </Tooltip>
+            {onRequestComment && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={requestComment}
+                    data-testid="button-comment-selection"
+                  >
+                    <MessageSquarePlus className="h-4 w-4" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>Comment on Selection</TooltipContent>
+              </Tooltip>
+            )}
+            {onTakeSnapshot && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={handleTakeSnapshot}
+                    data-testid="button-take-snapshot"
+                  >
+                    <Camera className="h-4 w-4" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>Take Snapshot</TooltipContent>
+              </Tooltip>
+            )}
             <Tooltip>
               <TooltipTrigger asChild>
                 <Button
@@ -236,8 +512,10 @@ export function SessionEditor({
           <Editor
             height="100%"
             language={currentFile ? getLanguageFromPath(currentFile.path) : "typescript"}
-            value={editorContent}
-            onChange={handleEditorChange}
+            path={doc ? currentFile?.path : `snapshot/${currentFile?.path}`}
+            defaultValue={currentFile?.content || ""}
+            value={doc ? undefined : currentFile?.content || ""}
+            onChange={doc ? undefined : handleEditorChange}
             onMount={handleEditorMount}
             theme="vs-dark"
             options={{
@@ -246,6 +524,7 @@ export function SessionEditor({
               fontFamily: "'Fira Code', 'Monaco', monospace",
               readOnly,
               lineNumbers: "on",
+              glyphMargin: true,
               renderWhitespace: "selection",
               scrollBeyondLastLine: false,
               automaticLayout: true,
@@ -289,3 +568,7 @@ export function SessionEditor({
     </div>
   );
 }
+
+function cursorClassKey(userId: string) {
+  return userId.replace(/[^a-zA-Z0-9_-]/g, "");
+}
@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Pin, Tag, X } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { snapshotTagSchema } from "@shared/snapshots";
+import type { Snapshot } from "@shared/schema";
+
+interface SnapshotAnnotationsDialogProps {
+  sessionId: string;
+  snapshot: Pick<Snapshot, "id" | "description" | "tags" | "pinned" | "note"> | null;
+  /** Tags used elsewhere in the session, offered as suggestions */
+  knownTags: string[];
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Edits a snapshot's tags, pin and markdown note */
+export function SnapshotAnnotationsDialog({ sessionId, snapshot, knownTags, onOpenChange }: SnapshotAnnotationsDialogProps) {
+  const { toast } = useToast();
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState("");
+  const [tagError, setTagError] = useState<string | null>(null);
+  const [pinned, setPinned] = useState(false);
+  const [note, setNote] = useState("");
+
+  useEffect(() => {
+    setTags(snapshot?.tags ?? []);
+    setPinned(snapshot?.pinned ?? false);
+    setNote(snapshot?.note ?? "");
+    setTagInput("");
+    setTagError(null);
+    // Only when another snapshot is opened, so a refetch of the list doesn't wipe what is being typed
+  }, [snapshot?.id]);
+
+  const addTag = (value: string) => {
+    if (!value.trim()) return;
+    const parsed = snapshotTagSchema.safeParse(value);
+    if (!parsed.success) {
+      setTagError(parsed.error.issues[0].message);
+      return;
+    }
+    setTags((current) => (current.includes(parsed.data) ? current : [...current, parsed.data]));
+    setTagInput("");
+    setTagError(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      // Include a tag that was typed but not yet added
+      const pending = tagInput.trim() ? snapshotTagSchema.safeParse(tagInput) : null;
+      return apiRequest("PATCH", `/api/snapshots/${snapshot!.id}/annotations`, {
+        tags: pending?.success ? Array.from(new Set([...tags, pending.data])) : tags,
+        pinned,
+        note: note.trim() ? note : null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "snapshots"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/snapshots", snapshot!.id] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to update snapshot"),
+      });
+    },
+  });
+
+  const suggestions = knownTags.filter((tag) => !tags.includes(tag));
+
+  return (
+    <Dialog open={Boolean(snapshot)} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl" data-testid="dialog-snapshot-annotations">
+        <DialogHeader>
+          <DialogTitle>Annotate snapshot</DialogTitle>
+          <DialogDescription>{snapshot?.description || "Unnamed snapshot"}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="snapshot-tag-input">Tags</Label>
+            {tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {tags.map((tag) => (
+                  <Badge key={tag} variant="secondary" className="gap-1" data-testid={`tag-${tag}`}>
+                    <Tag className="h-3 w-3" />
+                    {tag}
+                    <button
+                      onClick={() => setTags((current) => current.filter((other) => other !== tag))}
+                      aria-label={`Remove ${tag}`}
+                      data-testid={`button-remove-tag-${tag}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <Input
+              id="snapshot-tag-input"
+              placeholder="Add a tag, e.g. before-refactor"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" || e.key === ",") {
+                  e.preventDefault();
+                  addTag(tagInput);
+                }
+              }}
+              onBlur={() => addTag(tagInput)}
+              data-testid="input-snapshot-tag"
+            />
+            {tagError && <p className="text-xs text-destructive">{tagError}</p>}
+            {suggestions.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {suggestions.map((tag) => (
+                  <Badge
+                    key={tag}
+                    variant="outline"
+                    className="cursor-pointer"
+                    onClick={() => addTag(tag)}
+                    data-testid={`suggested-tag-${tag}`}
+                  >
+                    + {tag}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="snapshot-pinned" className="flex items-center gap-1">
+              <Pin className="h-4 w-4" />
+              Pin to the top of the timeline
+            </Label>
+            <Switch id="snapshot-pinned" checked={pinned} onCheckedChange={setPinned} data-testid="switch-snapshot-pinned" />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="snapshot-note">Note</Label>
+            <Textarea
+              id="snapshot-note"
+              placeholder="What this snapshot is for, what to look at... (Markdown)"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="min-h-40 font-mono text-sm"
+              data-testid="textarea-snapshot-note"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-annotations">
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
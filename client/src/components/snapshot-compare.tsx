@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { FileDiff, FileMinus, FilePlus, FileSymlink } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { DiffViewer } from "@/components/diff-viewer";
+import type { FileChange, FileChangeStatus, FileComparison, SnapshotComparison } from "@shared/snapshots";
+
+interface SnapshotCompareProps {
+  fromId: string;
+  toId: string;
+}
+
+const statusIcons: Record<FileChangeStatus, typeof FileDiff> = {
+  created: FilePlus,
+  deleted: FileMinus,
+  modified: FileDiff,
+  renamed: FileSymlink,
+};
+
+const statusColors: Record<FileChangeStatus, string> = {
+  created: "text-green-600 dark:text-green-400",
+  deleted: "text-red-600 dark:text-red-400",
+  modified: "text-amber-600 dark:text-amber-400",
+  renamed: "text-blue-600 dark:text-blue-400",
+};
+
+function LineStatBadge({ added, removed, modified }: { added: number; removed: number; modified: number }) {
+  return (
+    <Badge variant="secondary" className="text-xs font-mono gap-1 shrink-0">
+      <span className="text-green-600 dark:text-green-400">+{added}</span>
+      <span className="text-red-600 dark:text-red-400">−{removed}</span>
+      <span className="text-amber-600 dark:text-amber-400">~{modified}</span>
+    </Badge>
+  );
+}
+
+/**
+ * Lists every file that differs between two snapshots and shows the diff of
+ * the one picked. The server works out the changes, so only the selected
+ * file's contents are downloaded.
+ */
+export function SnapshotCompare({ fromId, toId }: SnapshotCompareProps) {
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+
+  const { data: comparison, isLoading } = useQuery<SnapshotComparison>({
+    queryKey: ["/api/snapshots", fromId, "compare", toId],
+  });
+
+  useEffect(() => {
+    setSelectedPath(comparison?.changes[0]?.path ?? null);
+  }, [comparison]);
+
+  const { data: file } = useQuery<FileComparison>({
+    queryKey: ["/api/snapshots", fromId, "compare", toId, `file?path=${encodeURIComponent(selectedPath ?? "")}`],
+    enabled: Boolean(selectedPath),
+  });
+
+  if (isLoading || !comparison) {
+    return <div className="flex-1 flex items-center justify-center text-sm text-muted-foreground">Comparing snapshots...</div>;
+  }
+
+  if (comparison.changes.length === 0) {
+    return <div className="flex-1 flex items-center justify-center text-sm text-muted-foreground">These snapshots have the same files</div>;
+  }
+
+  const describe = (change: FileChange) => change.previousPath ? `${change.previousPath} → ${change.path}` : change.path;
+
+  return (
+    <div className="flex-1 flex min-h-0" data-testid="snapshot-compare">
+      <div className="w-72 shrink-0 border-r flex flex-col">
+        <div className="px-3 py-2 border-b flex items-center justify-between gap-2 text-xs text-muted-foreground">
+          <span>
+            {comparison.changes.length} {comparison.changes.length === 1 ? "file" : "files"} changed
+          </span>
+          <LineStatBadge {...comparison.stats} />
+        </div>
+        <ScrollArea className="flex-1">
+          <div className="p-2 space-y-1">
+            {comparison.changes.map((change) => {
+              const Icon = statusIcons[change.status];
+              return (
+                <button
+                  key={change.path}
+                  className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-left text-sm hover-elevate ${
+                    change.path === selectedPath ? "bg-accent" : ""
+                  }`}
+                  onClick={() => setSelectedPath(change.path)}
+                  title={`${change.status}: ${describe(change)}`}
+                  data-testid={`compare-file-${change.path}`}
+                >
+                  <Icon className={`h-4 w-4 shrink-0 ${statusColors[change.status]}`} />
+                  <span className="flex-1 truncate">{describe(change)}</span>
+                  <LineStatBadge {...change} />
+                </button>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      </div>
+
+      <div className="flex-1 min-w-0">
+        {file && file.path === selectedPath ? (
+          <DiffViewer oldContent={file.oldContent} newContent={file.newContent} fileName={describe(file)} />
+        ) : (
+          <div className="h-full flex items-center justify-center text-sm text-muted-foreground">Loading diff...</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,27 +2,173 @@ import { formatDistanceToNow } from "date-fns";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Clock, MessageSquare, Camera, RotateCcw } from "lucide-react";
+import { useMemo, useState } from "react";
+import { Clock, MessageSquare, Camera, RotateCcw, GitBranch, GitMerge, Eye, Bot, ChevronDown, ChevronRight, Pin, PinOff, Tag, StickyNote, Download, GitCompare } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { layoutSnapshotGraph, type GraphRow } from "@/lib/snapshot-graph";
 import type { Snapshot } from "@shared/schema";
+import type { SnapshotMetadata } from "@shared/snapshots";
 
 interface SnapshotTimelineProps {
   snapshots: (Snapshot & { author?: { username: string; avatarUrl: string | null }; _count?: { comments: number } })[];
   currentSnapshotId?: string;
+  headSnapshotId?: string | null;
   onSelectSnapshot?: (snapshotId: string) => void;
+  /** Opens the snapshot read-only in the editor */
+  onViewSnapshot?: (snapshotId: string) => void;
+  /** Rolls the live files back to the snapshot */
   onRestoreSnapshot?: (snapshotId: string) => void;
+  onForkSnapshot?: (snapshotId: string) => void;
+  /** Merges the snapshot into the head */
+  onMergeSnapshot?: (snapshotId: string) => void;
+  /** Opens the tags, pin and note editor */
+  onAnnotateSnapshot?: (snapshotId: string) => void;
+  onTogglePin?: (snapshotId: string, pinned: boolean) => void;
+  /** Snapshots picked for comparison, base first */
+  compareIds?: string[];
+  onCompareSnapshot?: (snapshotId: string) => void;
 }
 
-export function SnapshotTimeline({ snapshots, currentSnapshotId, onSelectSnapshot, onRestoreSnapshot }: SnapshotTimelineProps) {
+const LANE_WIDTH = 14;
+// Vertical centre of the dot, level with the snapshot's title
+const DOT_Y = 20;
+// How far below the dot a branch reaches its own lane
+const FORK_DROP = 16;
+
+function laneX(lane: number) {
+  return lane * LANE_WIDTH + LANE_WIDTH / 2;
+}
+
+function GraphCell({ row, laneCount, highlighted }: { row: GraphRow; laneCount: number; highlighted: boolean }) {
+  const line = (lane: number, top: number, bottom?: number) => (
+    <div
+      key={`${lane}-${top}`}
+      className="absolute w-0.5 bg-border"
+      style={{ left: laneX(lane) - 1, top, bottom: bottom === undefined ? 0 : undefined, height: bottom }}
+    />
+  );
+
+  return (
+    <div className="relative shrink-0 self-stretch" style={{ width: laneCount * LANE_WIDTH }}>
+      {row.through.map((lane) => line(lane, 0))}
+      {row.fromParent && line(row.lane, 0, DOT_Y)}
+      {row.toChild && line(row.lane, DOT_Y)}
+      {row.forks.map((lane) => line(lane, DOT_Y + FORK_DROP))}
+      {(row.forks.length > 0 || row.merges.length > 0) && (
+        <svg className="absolute inset-x-0 top-0 overflow-visible text-border" height={DOT_Y + FORK_DROP} width={laneCount * LANE_WIDTH}>
+          {row.forks.map((lane) => (
+            <path
+              key={`fork-${lane}`}
+              d={`M ${laneX(row.lane)} ${DOT_Y} C ${laneX(row.lane)} ${DOT_Y + FORK_DROP}, ${laneX(lane)} ${DOT_Y}, ${laneX(lane)} ${DOT_Y + FORK_DROP}`}
+              fill="none"
+              stroke="currentColor"
+              strokeWidth={2}
+            />
+          ))}
+          {row.merges.map((lane) => (
+            <path
+              key={`merge-${lane}`}
+              d={`M ${laneX(lane)} 0 C ${laneX(lane)} ${DOT_Y}, ${laneX(row.lane)} 0, ${laneX(row.lane)} ${DOT_Y}`}
+              fill="none"
+              stroke="currentColor"
+              strokeWidth={2}
+            />
+          ))}
+        </svg>
+      )}
+      <div
+        className={`absolute w-3 h-3 rounded-full border-2 ${
+          highlighted ? "bg-primary border-primary" : "bg-background border-muted-foreground"
+        }`}
+        style={{ left: laneX(row.lane) - 6, top: DOT_Y - 6 }}
+      />
+    </div>
+  );
+}
+
+export function SnapshotTimeline({
+  snapshots,
+  currentSnapshotId,
+  headSnapshotId,
+  onSelectSnapshot,
+  onViewSnapshot,
+  onRestoreSnapshot,
+  onForkSnapshot,
+  onMergeSnapshot,
+  onAnnotateSnapshot,
+  onTogglePin,
+  compareIds = [],
+  onCompareSnapshot,
+}: SnapshotTimelineProps) {
+  const [showAutomatic, setShowAutomatic] = useState(false);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const automaticCount = (snapshots ?? []).filter((snapshot) => snapshot.isAutomatic).length;
+  const pinnedSnapshots = (snapshots ?? []).filter((snapshot) => snapshot.pinned);
+  const allTags = useMemo(
+    () => Array.from(new Set((snapshots ?? []).flatMap((snapshot) => snapshot.tags ?? []))).sort(),
+    [snapshots],
+  );
+
+  // Filtered-out and collapsed automatic snapshots are skipped over: each
+  // visible snapshot hangs off its nearest visible ancestor and counts the
+  // automatic ones hidden in between
+  const { visible, hiddenCounts } = useMemo(() => {
+    const all = snapshots ?? [];
+    const matchesFilter = (snapshot: Snapshot) => !tagFilter || (snapshot.tags ?? []).includes(tagFilter);
+    const isShown = (snapshot: Snapshot) => matchesFilter(snapshot) && (
+      showAutomatic || !snapshot.isAutomatic || snapshot.id === headSnapshotId || snapshot.id === currentSnapshotId
+    );
+    const byId = new Map(all.map((snapshot) => [snapshot.id, snapshot]));
+    const claimed = new Set<string>();
+    const hiddenCounts = new Map<string, number>();
+
+    const visibleAncestor = (id: string | null, countFor?: string): string | null => {
+      let current = id ? byId.get(id) : undefined;
+      while (current && !isShown(current)) {
+        if (countFor && current.isAutomatic && matchesFilter(current) && !claimed.has(current.id)) {
+          claimed.add(current.id);
+          hiddenCounts.set(countFor, (hiddenCounts.get(countFor) ?? 0) + 1);
+        }
+        current = current.baseSnapshotId ? byId.get(current.baseSnapshotId) : undefined;
+      }
+      return current?.id ?? null;
+    };
+
+    const visible = all.filter(isShown).map((snapshot) => ({
+      snapshot,
+      parentId: visibleAncestor(snapshot.baseSnapshotId, snapshot.id),
+      mergeParentId: visibleAncestor(snapshot.mergeParentId),
+    }));
+    return { visible, hiddenCounts };
+  }, [snapshots, showAutomatic, tagFilter, headSnapshotId, currentSnapshotId]);
+
+  const graph = useMemo(
+    () => layoutSnapshotGraph(visible.map(({ snapshot, parentId, mergeParentId }) => ({
+      id: snapshot.id,
+      parentId,
+      mergeParentId,
+    }))),
+    [visible],
+  );
+
   const getSnapshotMetadata = (snapshot: Snapshot) => {
-    const diff = snapshot.diff as any;
-    if (diff?.files) {
-      const fileCount = Object.keys(diff.files).length;
-      const linesChanged = diff.metadata?.linesChanged || 0;
-      return { fileCount, linesChanged };
-    }
-    return { fileCount: 0, linesChanged: 0 };
+    // Rows not yet moved to blob storage still keep files and metadata in `diff`
+    const legacy = snapshot.diff as { files?: object; metadata?: Partial<SnapshotMetadata> } | null | undefined;
+    const metadata: Partial<SnapshotMetadata> = snapshot.metadata ?? legacy?.metadata ?? {};
+    const tree = snapshot.tree && Object.keys(snapshot.tree).length > 0 ? snapshot.tree : legacy?.files;
+    return {
+      fileCount: tree ? Object.keys(tree).length : 0,
+      linesChanged: metadata.linesChanged ?? 0,
+      // Snapshots taken before line-level diffs only recorded the total
+      lineStats: metadata.linesAdded !== undefined
+        ? { added: metadata.linesAdded, removed: metadata.linesRemoved ?? 0, modified: metadata.linesModified ?? 0 }
+        : null,
+      created: metadata.filesCreated?.length ?? 0,
+      deleted: metadata.filesDeleted?.length ?? 0,
+      renamed: metadata.filesRenamed?.length ?? 0,
+    };
   };
+
   if (!snapshots || snapshots.length === 0) {
     return (
       <div className="p-4">
@@ -39,27 +185,76 @@ export function SnapshotTimeline({ snapshots, currentSnapshotId, onSelectSnapsho
 
   return (
     <ScrollArea className="h-full">
-      <div className="p-4 space-y-3">
-        {snapshots.map((snapshot, index) => {
+      <div className="p-4">
+        {pinnedSnapshots.length > 0 && (
+          <div className="mb-4 space-y-1" data-testid="pinned-snapshots">
+            <h4 className="flex items-center gap-1 text-xs font-medium text-muted-foreground uppercase tracking-wider">
+              <Pin className="h-3 w-3" />
+              Pinned
+            </h4>
+            {pinnedSnapshots.map((snapshot) => (
+              <button
+                key={snapshot.id}
+                className={`w-full p-2 rounded-md text-left hover-elevate ${snapshot.id === currentSnapshotId ? "bg-accent" : ""}`}
+                onClick={() => onSelectSnapshot?.(snapshot.id)}
+                data-testid={`pinned-snapshot-${snapshot.id}`}
+              >
+                <p className="text-sm font-medium truncate">{snapshot.description || "Unnamed snapshot"}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(snapshot.timestamp), { addSuffix: true })}
+                  {snapshot.tags?.length ? ` · ${snapshot.tags.join(", ")}` : ""}
+                </p>
+              </button>
+            ))}
+          </div>
+        )}
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1 mb-2" data-testid="tag-filter">
+            <Tag className="h-3 w-3 text-muted-foreground" />
+            {allTags.map((tag) => (
+              <Badge
+                key={tag}
+                variant={tagFilter === tag ? "default" : "outline"}
+                className="cursor-pointer text-xs"
+                onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                data-testid={`filter-tag-${tag}`}
+              >
+                {tag}
+              </Badge>
+            ))}
+          </div>
+        )}
+        {automaticCount > 0 && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="w-full justify-start gap-1 mb-2 text-xs text-muted-foreground"
+            onClick={() => setShowAutomatic(!showAutomatic)}
+            data-testid="button-toggle-automatic"
+          >
+            {showAutomatic ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+            {showAutomatic ? "Hide" : "Show"} {automaticCount} automatic {automaticCount === 1 ? "snapshot" : "snapshots"}
+          </Button>
+        )}
+        {tagFilter && visible.length === 0 && (
+          <p className="py-4 text-center text-xs text-muted-foreground">No snapshots tagged "{tagFilter}"</p>
+        )}
+        {visible.map(({ snapshot }, index) => {
           const isSelected = snapshot.id === currentSnapshotId;
-          const isFirst = index === 0;
+          const isHead = snapshot.id === headSnapshotId;
+          const hiddenCount = hiddenCounts.get(snapshot.id) ?? 0;
+          const compareIndex = compareIds.indexOf(snapshot.id);
 
           return (
             <div
               key={snapshot.id}
-              className={`relative pl-6 pb-3 ${!isFirst ? "border-l-2 border-border" : ""}`}
+              className="flex gap-2"
               data-testid={`snapshot-${snapshot.id}`}
             >
+              <GraphCell row={graph.rows[index]} laneCount={graph.laneCount} highlighted={isSelected} />
+
               <div
-                className={`absolute left-[-9px] top-0 w-4 h-4 rounded-full border-2 ${
-                  isSelected
-                    ? "bg-primary border-primary"
-                    : "bg-background border-border"
-                }`}
-              />
-              
-              <div
-                className={`p-3 rounded-md cursor-pointer hover-elevate ${
+                className={`flex-1 min-w-0 mb-3 p-3 rounded-md cursor-pointer hover-elevate ${
                   isSelected ? "bg-accent" : ""
                 }`}
                 onClick={() => onSelectSnapshot?.(snapshot.id)}
@@ -67,14 +262,51 @@ export function SnapshotTimeline({ snapshots, currentSnapshotId, onSelectSnapsho
                 <div className="flex items-start justify-between gap-2 mb-2">
                   <div className="flex-1 min-w-0">
                     <p className="text-sm font-medium line-clamp-2">
+                      {snapshot.pinned && <Pin className="inline h-3 w-3 mr-1 text-muted-foreground" />}
                       {snapshot.description || "Unnamed snapshot"}
                     </p>
                   </div>
+                  {snapshot.isAutomatic && (
+                    <Badge variant="secondary" className="shrink-0 gap-1" data-testid={`badge-automatic-${snapshot.id}`}>
+                      <Bot className="h-3 w-3" />
+                      Auto
+                    </Badge>
+                  )}
+                  {isHead && (
+                    <Badge variant="outline" className="shrink-0 gap-1" data-testid={`badge-head-${snapshot.id}`}>
+                      <GitBranch className="h-3 w-3" />
+                      Head
+                    </Badge>
+                  )}
                   {isSelected && (
                     <Badge variant="default" className="shrink-0">Current</Badge>
                   )}
+                  {compareIndex !== -1 && (
+                    <Badge variant="secondary" className="shrink-0 gap-1" data-testid={`badge-compare-${snapshot.id}`}>
+                      <GitCompare className="h-3 w-3" />
+                      {compareIndex === 0 ? "Base" : "Compare"}
+                    </Badge>
+                  )}
                 </div>
 
+                {snapshot.tags && snapshot.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mb-2">
+                    {snapshot.tags.map((tag) => (
+                      <Badge key={tag} variant="outline" className="text-xs gap-1" data-testid={`badge-tag-${snapshot.id}-${tag}`}>
+                        <Tag className="h-3 w-3" />
+                        {tag}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+
+                {snapshot.note && (
+                  <div className="flex gap-1 mb-2 text-xs text-muted-foreground" data-testid={`note-${snapshot.id}`}>
+                    <StickyNote className="h-3 w-3 mt-0.5 shrink-0" />
+                    <p className="whitespace-pre-wrap line-clamp-3">{snapshot.note}</p>
+                  </div>
+                )}
+
                 <div className="flex items-center gap-2 text-xs text-muted-foreground mb-2">
                   {snapshot.author && (
                     <div className="flex items-center gap-1">
@@ -100,36 +332,164 @@ export function SnapshotTimeline({ snapshots, currentSnapshotId, onSelectSnapsho
                       <span>{snapshot._count.comments}</span>
                     </div>
                   )}
+                  {hiddenCount > 0 && (
+                    <button
+                      className="flex items-center gap-1 hover:text-foreground"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setShowAutomatic(true);
+                      }}
+                      data-testid={`button-expand-automatic-${snapshot.id}`}
+                    >
+                      <Bot className="h-3 w-3" />
+                      <span>+{hiddenCount} automatic</span>
+                    </button>
+                  )}
                 </div>
 
                 {(() => {
-                  const { fileCount, linesChanged } = getSnapshotMetadata(snapshot);
-                  if (fileCount > 0 || linesChanged > 0) {
-                    return (
-                      <Badge variant="secondary" className="mb-2 text-xs">
+                  const { fileCount, linesChanged, lineStats, created, deleted, renamed } = getSnapshotMetadata(snapshot);
+                  if (fileCount === 0 && linesChanged === 0) return null;
+                  return (
+                    <div className="flex flex-wrap items-center gap-1 mb-2">
+                      <Badge variant="secondary" className="text-xs">
                         {fileCount} {fileCount === 1 ? 'file' : 'files'}
-                        {linesChanged > 0 && `, ${linesChanged > 0 ? '+' : ''}${linesChanged} lines`}
                       </Badge>
-                    );
-                  }
-                  return null;
+                      {lineStats ? (
+                        <Badge variant="secondary" className="text-xs font-mono gap-1" data-testid={`badge-lines-${snapshot.id}`}>
+                          <span className="text-green-600 dark:text-green-400">+{lineStats.added}</span>
+                          <span className="text-red-600 dark:text-red-400">−{lineStats.removed}</span>
+                          <span className="text-amber-600 dark:text-amber-400">~{lineStats.modified}</span>
+                        </Badge>
+                      ) : linesChanged > 0 && (
+                        <Badge variant="secondary" className="text-xs">{linesChanged} lines</Badge>
+                      )}
+                      {created > 0 && <Badge variant="outline" className="text-xs">{created} created</Badge>}
+                      {deleted > 0 && <Badge variant="outline" className="text-xs">{deleted} deleted</Badge>}
+                      {renamed > 0 && <Badge variant="outline" className="text-xs">{renamed} renamed</Badge>}
+                    </div>
+                  );
                 })()}
 
-                {!isSelected && onRestoreSnapshot && (
+                <div className="flex gap-2 mt-2">
+                  {!isSelected && onViewSnapshot && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="flex-1"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onViewSnapshot(snapshot.id);
+                      }}
+                      data-testid={`button-view-${snapshot.id}`}
+                    >
+                      <Eye className="h-3 w-3 mr-1" />
+                      View
+                    </Button>
+                  )}
+                  {onRestoreSnapshot && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="flex-1"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onRestoreSnapshot(snapshot.id);
+                      }}
+                      data-testid={`button-restore-${snapshot.id}`}
+                    >
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      Restore
+                    </Button>
+                  )}
+                  {!isHead && onForkSnapshot && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="flex-1"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onForkSnapshot(snapshot.id);
+                      }}
+                      data-testid={`button-fork-${snapshot.id}`}
+                    >
+                      <GitBranch className="h-3 w-3 mr-1" />
+                      Fork
+                    </Button>
+                  )}
+                  {!isHead && headSnapshotId && onMergeSnapshot && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="flex-1"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onMergeSnapshot(snapshot.id);
+                      }}
+                      data-testid={`button-merge-${snapshot.id}`}
+                    >
+                      <GitMerge className="h-3 w-3 mr-1" />
+                      Merge
+                    </Button>
+                  )}
+                  {onTogglePin && (
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      className="h-8 w-8 shrink-0"
+                      title={snapshot.pinned ? "Unpin" : "Pin"}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onTogglePin(snapshot.id, !snapshot.pinned);
+                      }}
+                      data-testid={`button-pin-${snapshot.id}`}
+                    >
+                      {snapshot.pinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+                    </Button>
+                  )}
+                  {onAnnotateSnapshot && (
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      className="h-8 w-8 shrink-0"
+                      title="Tags and note"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onAnnotateSnapshot(snapshot.id);
+                      }}
+                      data-testid={`button-annotate-${snapshot.id}`}
+                    >
+                      <Tag className="h-3 w-3" />
+                    </Button>
+                  )}
+                  {onCompareSnapshot && (
+                    <Button
+                      size="icon"
+                      variant={compareIndex !== -1 ? "default" : "outline"}
+                      className="h-8 w-8 shrink-0"
+                      title={compareIndex !== -1 ? "Remove from comparison" : "Compare"}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onCompareSnapshot(snapshot.id);
+                      }}
+                      data-testid={`button-compare-${snapshot.id}`}
+                    >
+                      <GitCompare className="h-3 w-3" />
+                    </Button>
+                  )}
                   <Button
-                    size="sm"
+                    size="icon"
                     variant="outline"
-                    className="w-full mt-2"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      onRestoreSnapshot(snapshot.id);
-                    }}
-                    data-testid={`button-restore-${snapshot.id}`}
+                    className="h-8 w-8 shrink-0"
+                    title="Download as a bundle"
+                    asChild
+                    data-testid={`button-export-${snapshot.id}`}
                   >
-                    <RotateCcw className="h-3 w-3 mr-1" />
-                    Restore
+                    <a href={`/api/snapshots/${snapshot.id}/bundle`} download onClick={(e) => e.stopPropagation()}>
+                      <Download className="h-3 w-3" />
+                    </a>
                   </Button>
-                )}
+                </div>
               </div>
             </div>
           );
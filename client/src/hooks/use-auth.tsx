@@ -0,0 +1,98 @@
+import { createContext, type ReactNode, useContext } from "react";
+import { useQuery, useMutation, type UseMutationResult } from "@tanstack/react-query";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { PublicUser } from "@shared/schema";
+
+type LoginData = {
+  username: string;
+  password: string;
+};
+
+type SignupData = LoginData & {
+  displayName?: string;
+  email?: string;
+};
+
+type AuthContextType = {
+  user: PublicUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, LoginData>;
+  signupMutation: UseMutationResult<PublicUser, Error, SignupData>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      return apiRequest("POST", "/api/login", credentials);
+    },
+    onSuccess: (user: PublicUser) => {
+      queryClient.setQueryData(["/api/me"], user);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Login failed",
+        description: error.message,
+      });
+    },
+  });
+
+  const signupMutation = useMutation({
+    mutationFn: async (data: SignupData) => {
+      return apiRequest("POST", "/api/signup", data);
+    },
+    onSuccess: (user: PublicUser) => {
+      queryClient.setQueryData(["/api/me"], user);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Sign up failed",
+        description: error.message,
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/me"], null);
+      queryClient.removeQueries({ predicate: (query) => query.queryKey[0] !== "/api/me" });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        loginMutation,
+        signupMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
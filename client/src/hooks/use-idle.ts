@@ -0,0 +1,37 @@
+import { useState, useEffect } from "react";
+
+const ACTIVITY_EVENTS = ["keydown", "mousedown", "mousemove", "wheel", "touchstart"] as const;
+
+/**
+ * True once the user has done nothing for `timeoutMs`, or the tab is hidden;
+ * any input flips it back.
+ */
+export function useIdle(timeoutMs: number): boolean {
+  const [isIdle, setIsIdle] = useState(false);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout>;
+
+    const markActive = () => {
+      clearTimeout(timer);
+      if (document.visibilityState === "hidden") {
+        setIsIdle(true);
+        return;
+      }
+      setIsIdle(false);
+      timer = setTimeout(() => setIsIdle(true), timeoutMs);
+    };
+
+    markActive();
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, markActive, { passive: true }));
+    document.addEventListener("visibilitychange", markActive);
+
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, markActive));
+      document.removeEventListener("visibilitychange", markActive);
+    };
+  }, [timeoutMs]);
+
+  return isIdle;
+}
@@ -0,0 +1,87 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { SessionSocket, type ConnectionState } from "@/lib/session-socket";
+import type { ClientMessage, ServerMessageOf, ServerMessageType } from "@shared/protocol";
+
+export type SessionMessageHandlers = {
+  [T in ServerMessageType]?: (message: ServerMessageOf<T>) => void;
+};
+
+type SessionSocketResult = {
+  connectionState: ConnectionState;
+  /** Sends only once the server has answered the join; returns whether the message went out */
+  send: (message: ClientMessage) => boolean;
+};
+
+/**
+ * Joins a session over WebSocket and dispatches each typed server message to
+ * its handler. Reconnects resume from the last broadcast seen, so handlers
+ * never get the same broadcast twice.
+ */
+export function useSessionSocket(sessionId: string, handlers: SessionMessageHandlers): SessionSocketResult {
+  const [connectionState, setConnectionState] = useState<ConnectionState>("connecting");
+  const socketRef = useRef<SessionSocket | null>(null);
+  const joinedRef = useRef(false);
+  // Always dispatch to the latest handlers without reconnecting when they change
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    const host = window.location.host || `${window.location.hostname}:5000`;
+    const wsUrl = `${protocol}//${host}/ws`;
+    // Identifies this tab across reconnects so the server doesn't replay our own edits
+    const clientId = crypto.randomUUID();
+    let position: { epoch: string; seq: number } | null = null;
+
+    const dispatch = <T extends ServerMessageType>(message: ServerMessageOf<T>) => {
+      const handler = handlersRef.current[message.type] as ((message: ServerMessageOf<T>) => void) | undefined;
+      handler?.(message);
+    };
+
+    const socket = new SessionSocket(wsUrl, {
+      onOpen: () => {
+        const resume = position ?? undefined;
+        // The server replays what we missed before anything else, so nothing needs filtering until it answers
+        position = null;
+        socket.send({ type: 'join-session', sessionId, clientId, resume });
+      },
+      onMessage: (message) => {
+        // Broadcasts are numbered per session; anything at or below our position was already applied
+        if ("seq" in message && typeof message.seq === 'number' && position) {
+          if (message.seq <= position.seq) return;
+          position.seq = message.seq;
+        }
+
+        if (message.type === 'session-state' || message.type === 'session-resumed') {
+          position = { epoch: message.epoch, seq: message.seq };
+          joinedRef.current = true;
+          setConnectionState("connected");
+        }
+
+        dispatch(message);
+      },
+      // "connected" is only reported once the join has been answered
+      onStateChange: (state) => {
+        if (state !== "connected") {
+          joinedRef.current = false;
+          setConnectionState(state);
+        }
+      },
+    });
+    socketRef.current = socket;
+
+    return () => {
+      socket.send({ type: 'leave-session' });
+      socket.close();
+      socketRef.current = null;
+      joinedRef.current = false;
+    };
+  }, [sessionId]);
+
+  const send = useCallback((message: ClientMessage) => {
+    if (!joinedRef.current || !socketRef.current) return false;
+    return socketRef.current.send(message);
+  }, []);
+
+  return { connectionState, send };
+}
@@ -0,0 +1,78 @@
+import * as Y from "yjs";
+import type { editor } from "monaco-editor";
+import { LOCAL_ORIGIN } from "@shared/collab";
+
+/**
+ * Keeps a Monaco model and a Y.Text in step: local keystrokes become Yjs
+ * inserts/deletes, remote Yjs deltas are replayed as Monaco edits.
+ */
+export function bindMonacoModel(
+  ytext: Y.Text,
+  model: editor.ITextModel,
+  onLocalChange?: (content: string) => void,
+): () => void {
+  let applyingRemote = false;
+
+  if (model.getValue() !== ytext.toString()) {
+    applyingRemote = true;
+    model.setValue(ytext.toString());
+    applyingRemote = false;
+  }
+
+  const handleTextChange = (event: Y.YTextEvent, transaction: Y.Transaction) => {
+    if (transaction.origin === LOCAL_ORIGIN) return;
+
+    applyingRemote = true;
+    try {
+      let index = 0;
+      for (const op of event.delta) {
+        if (op.retain !== undefined) {
+          index += op.retain;
+        } else if (op.insert !== undefined) {
+          const text = op.insert as string;
+          const pos = model.getPositionAt(index);
+          model.applyEdits([{
+            range: { startLineNumber: pos.lineNumber, startColumn: pos.column, endLineNumber: pos.lineNumber, endColumn: pos.column },
+            text,
+          }]);
+          index += text.length;
+        } else if (op.delete !== undefined) {
+          const start = model.getPositionAt(index);
+          const end = model.getPositionAt(index + op.delete);
+          model.applyEdits([{
+            range: { startLineNumber: start.lineNumber, startColumn: start.column, endLineNumber: end.lineNumber, endColumn: end.column },
+            text: "",
+          }]);
+        }
+      }
+    } finally {
+      applyingRemote = false;
+    }
+  };
+
+  ytext.observe(handleTextChange);
+
+  const contentListener = model.onDidChangeContent((event) => {
+    if (applyingRemote) return;
+
+    // Apply from the end of the document so earlier offsets stay valid
+    const changes = [...event.changes].sort((a, b) => b.rangeOffset - a.rangeOffset);
+    ytext.doc!.transact(() => {
+      for (const change of changes) {
+        if (change.rangeLength > 0) {
+          ytext.delete(change.rangeOffset, change.rangeLength);
+        }
+        if (change.text) {
+          ytext.insert(change.rangeOffset, change.text);
+        }
+      }
+    }, LOCAL_ORIGIN);
+
+    onLocalChange?.(model.getValue());
+  });
+
+  return () => {
+    ytext.unobserve(handleTextChange);
+    contentListener.dispose();
+  };
+}
@@ -0,0 +1,22 @@
+const languagesByExtension: Record<string, string> = {
+  ts: "typescript",
+  tsx: "typescript",
+  js: "javascript",
+  jsx: "javascript",
+  json: "json",
+  html: "html",
+  css: "css",
+  py: "python",
+  java: "java",
+  cpp: "cpp",
+  c: "c",
+  go: "go",
+  rs: "rust",
+  md: "markdown",
+};
+
+// Monaco language id for a file, falling back to TypeScript
+export function getLanguageFromPath(path: string): string {
+  const ext = path.split(".").pop()?.toLowerCase();
+  return languagesByExtension[ext || ""] || "typescript";
+}
@@ -0,0 +1,19 @@
+const PRESENCE_COLORS = [
+  "#f97316",
+  "#22c55e",
+  "#3b82f6",
+  "#ec4899",
+  "#a855f7",
+  "#eab308",
+  "#14b8a6",
+  "#ef4444",
+];
+
+// Stable per user, so a collaborator's avatar and cursor always share a color
+export function getPresenceColor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length];
+}
@@ -7,6 +7,20 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Errors thrown above read "<status>: <body>"; pull the API's `error` field out when there is one
+export function getErrorMessage(error: unknown, fallback = "Something went wrong"): string {
+  if (!(error instanceof Error)) return fallback;
+
+  const body = error.message.replace(/^\d{3}: /, "");
+  try {
+    const parsed = JSON.parse(body);
+    if (typeof parsed?.error === "string") return parsed.error;
+  } catch {
+    // Not JSON; show the text as it is
+  }
+  return body || fallback;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
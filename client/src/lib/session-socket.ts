@@ -0,0 +1,122 @@
+import { parseServerMessage, type ClientMessage, type ServerMessage } from "@shared/protocol";
+
+export type ConnectionState = "connecting" | "connected" | "reconnecting";
+
+const INITIAL_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 10000;
+const PING_INTERVAL_MS = 20000;
+// Any frame counts as a sign of life; only a silent socket is considered dead
+const PONG_TIMEOUT_MS = 10000;
+
+interface SessionSocketHandlers {
+  onOpen: () => void;
+  onMessage: (message: ServerMessage) => void;
+  onStateChange: (state: ConnectionState) => void;
+}
+
+/**
+ * A WebSocket that keeps itself alive: it pings the server, drops the
+ * connection when replies stop, and reconnects with exponential backoff.
+ * Callers re-join (and resume) from `onOpen`, which fires after every reconnect.
+ */
+export class SessionSocket {
+  private socket: WebSocket | null = null;
+  private attempt = 0;
+  private closed = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  private pingTimer: ReturnType<typeof setInterval> | undefined;
+  private pongTimer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(private url: string, private handlers: SessionSocketHandlers) {
+    this.connect();
+  }
+
+  get isOpen(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  send(message: ClientMessage): boolean {
+    if (!this.isOpen) return false;
+    this.socket!.send(JSON.stringify(message));
+    return true;
+  }
+
+  close(): void {
+    this.closed = true;
+    clearTimeout(this.reconnectTimer);
+    this.drop();
+  }
+
+  private connect(): void {
+    this.handlers.onStateChange(this.attempt === 0 ? "connecting" : "reconnecting");
+
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.attempt = 0;
+      this.handlers.onStateChange("connected");
+      this.pingTimer = setInterval(() => this.ping(), PING_INTERVAL_MS);
+      this.handlers.onOpen();
+    };
+
+    socket.onmessage = (event) => {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = undefined;
+
+      const parsed = parseServerMessage(event.data);
+      if (!parsed.success) {
+        console.error("Ignoring malformed session message:", parsed.error);
+        return;
+      }
+
+      try {
+        this.handlers.onMessage(parsed.data);
+      } catch (error) {
+        console.error("Error handling session message:", error);
+      }
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.drop();
+      this.scheduleReconnect();
+    };
+  }
+
+  private ping(): void {
+    if (!this.send({ type: "ping" }) || this.pongTimer) return;
+
+    this.pongTimer = setTimeout(() => {
+      // A half-open connection may never fire onclose, so give up on it ourselves
+      this.drop();
+      this.scheduleReconnect();
+    }, PONG_TIMEOUT_MS);
+  }
+
+  private drop(): void {
+    clearInterval(this.pingTimer);
+    clearTimeout(this.pongTimer);
+    this.pongTimer = undefined;
+
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      socket.onopen = null;
+      socket.onmessage = null;
+      socket.onclose = null;
+      socket.close();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed) return;
+
+    this.handlers.onStateChange("reconnecting");
+    // Jitter keeps a room full of clients from reconnecting in lockstep after a restart
+    const backoff = Math.min(MAX_BACKOFF_MS, INITIAL_BACKOFF_MS * 2 ** this.attempt);
+    const delay = backoff / 2 + Math.random() * (backoff / 2);
+    this.attempt++;
+    this.reconnectTimer = setTimeout(() => this.connect(), delay);
+  }
+}
@@ -0,0 +1,77 @@
+export interface GraphNode {
+  id: string;
+  parentId: string | null;
+  /** Second parent of a merge */
+  mergeParentId?: string | null;
+}
+
+export interface GraphRow {
+  /** The lane this snapshot's dot sits in */
+  lane: number;
+  /** Whether a line comes down into the dot from its parent */
+  fromParent: boolean;
+  /** Whether a line leaves the dot towards its first child */
+  toChild: boolean;
+  /** Lanes opened in this row for further children, each drawn as a branch out of the dot */
+  forks: number[];
+  /** Lanes of merged-in parents, each drawn joining the dot from above */
+  merges: number[];
+  /** Other lanes that pass straight through this row */
+  through: number[];
+}
+
+export interface GraphLayout {
+  rows: GraphRow[];
+  laneCount: number;
+}
+
+/**
+ * Lays snapshots out like `git log --graph`, oldest first. Every lane holds
+ * the snapshot whose next child will continue it: the first child carries
+ * on in its parent's lane and each further child gets a lane of its own,
+ * branching out at the parent's row. A merge's second parent lane ends in
+ * the merge's dot.
+ */
+export function layoutSnapshotGraph(nodes: GraphNode[]): GraphLayout {
+  const ids = new Set(nodes.map((node) => node.id));
+  const childCounts = new Map<string, number>();
+  for (const node of nodes) {
+    for (const parentId of [node.parentId, node.mergeParentId]) {
+      if (parentId && ids.has(parentId)) {
+        childCounts.set(parentId, (childCounts.get(parentId) ?? 0) + 1);
+      }
+    }
+  }
+
+  const lanes: (string | null)[] = [];
+  const takeFreeLane = () => {
+    const free = lanes.indexOf(null);
+    return free === -1 ? lanes.push(null) - 1 : free;
+  };
+
+  let laneCount = 0;
+  const rows = nodes.map((node) => {
+    const parentLane = node.parentId ? lanes.indexOf(node.parentId) : -1;
+    const lane = parentLane === -1 ? takeFreeLane() : parentLane;
+    const mergeLane = node.mergeParentId ? lanes.indexOf(node.mergeParentId) : -1;
+    const merges = mergeLane === -1 || mergeLane === lane ? [] : [mergeLane];
+    const through = lanes.flatMap((id, index) => (id !== null && index !== lane && !merges.includes(index) ? [index] : []));
+    merges.forEach((index) => {
+      lanes[index] = null;
+    });
+
+    const children = childCounts.get(node.id) ?? 0;
+    lanes[lane] = children > 0 ? node.id : null;
+    const forks: number[] = [];
+    for (let i = 1; i < children; i++) {
+      const fork = takeFreeLane();
+      lanes[fork] = node.id;
+      forks.push(fork);
+    }
+
+    laneCount = Math.max(laneCount, lanes.length);
+    return { lane, fromParent: parentLane !== -1, toChild: children > 0, forks, merges, through };
+  });
+
+  return { rows, laneCount };
+}
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { Redirect, useSearch } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/use-auth";
+
+export default function AuthPage() {
+  const { user, loginMutation, signupMutation } = useAuth();
+  const search = useSearch();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [displayName, setDisplayName] = useState("");
+
+  if (user) {
+    const next = new URLSearchParams(search).get("next");
+    return <Redirect to={next && next.startsWith("/") ? next : "/"} />;
+  }
+
+  const handleLogin = () => {
+    loginMutation.mutate({ username, password });
+  };
+
+  const handleSignup = () => {
+    signupMutation.mutate({
+      username,
+      password,
+      displayName: displayName || undefined,
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="text-xl">Pairwise</CardTitle>
+          <CardDescription>Sign in to join collaborative sessions</CardDescription>
+        </CardHeader>
+        <Tabs defaultValue="login">
+          <CardContent className="space-y-4">
+            <TabsList className="w-full grid grid-cols-2">
+              <TabsTrigger value="login" data-testid="tab-login">Log in</TabsTrigger>
+              <TabsTrigger value="signup" data-testid="tab-signup">Sign up</TabsTrigger>
+            </TabsList>
+            <div className="space-y-2">
+              <Label htmlFor="username">Username</Label>
+              <Input
+                id="username"
+                data-testid="input-username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                data-testid="input-password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <TabsContent value="signup" className="m-0 space-y-2">
+              <Label htmlFor="displayName">Display name (optional)</Label>
+              <Input
+                id="displayName"
+                data-testid="input-display-name"
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+              />
+            </TabsContent>
+          </CardContent>
+          <CardFooter>
+            <TabsContent value="login" className="m-0 w-full">
+              <Button
+                className="w-full"
+                onClick={handleLogin}
+                disabled={!username || !password || loginMutation.isPending}
+                data-testid="button-login"
+              >
+                {loginMutation.isPending ? "Logging in..." : "Log in"}
+              </Button>
+            </TabsContent>
+            <TabsContent value="signup" className="m-0 w-full">
+              <Button
+                className="w-full"
+                onClick={handleSignup}
+                disabled={!username || password.length < 8 || signupMutation.isPending}
+                data-testid="button-signup"
+              >
+                {signupMutation.isPending ? "Creating account..." : "Create account"}
+              </Button>
+            </TabsContent>
+          </CardFooter>
+        </Tabs>
+      </Card>
+    </div>
+  );
+}
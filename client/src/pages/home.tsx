@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Link, useLocation } from "wouter";
-import { Plus, Calendar, Users, Play, Clock } from "lucide-react";
+import { Plus, Calendar, Users, Play, Clock, LogOut, LogIn } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
@@ -13,15 +13,18 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { formatDistanceToNow } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import type { Session } from "@shared/schema";
 
 export default function Home() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { user, logoutMutation } = useAuth();
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [newSessionTitle, setNewSessionTitle] = useState("");
   const [newSessionDescription, setNewSessionDescription] = useState("");
+  const [joinCode, setJoinCode] = useState("");
 
   const { data: sessions, isLoading } = useQuery<(Session & { host: { username: string; avatarUrl: string | null }; _count: { participants: number } })[]>({
     queryKey: ["/api/sessions"],
@@ -32,7 +35,6 @@ export default function Home() {
       return apiRequest("POST", "/api/sessions", {
         title: data.title,
         description: data.description,
-        hostId: "fbc686e3-0305-49d5-a92a-462dca28e4fd",
         status: "scheduled",
       });
     },
@@ -97,62 +99,93 @@ export default function Home() {
           <div className="flex items-center gap-2">
             <h1 className="text-xl font-semibold">Pairwise</h1>
           </div>
-          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-            <DialogTrigger asChild>
-              <Button data-testid="button-create-session" className="gap-2">
-                <Plus className="h-4 w-4" />
-                New Session
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground" data-testid="text-current-user">
+              {user?.displayName || user?.username}
+            </span>
+            <form
+              className="flex items-center gap-1"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (joinCode.trim()) setLocation(`/join/${encodeURIComponent(joinCode.trim())}`);
+              }}
+            >
+              <Input
+                className="h-9 w-32 font-mono uppercase"
+                placeholder="Join code"
+                value={joinCode}
+                onChange={(e) => setJoinCode(e.target.value)}
+                data-testid="input-join-code"
+              />
+              <Button type="submit" variant="outline" size="icon" disabled={!joinCode.trim()} data-testid="button-join-code">
+                <LogIn className="h-4 w-4" />
               </Button>
-            </DialogTrigger>
-            <DialogContent data-testid="dialog-create-session">
-              <DialogHeader>
-                <DialogTitle>Create New Session</DialogTitle>
-                <DialogDescription>
-                  Start a new collaborative coding session
-                </DialogDescription>
-              </DialogHeader>
-              <div className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="title">Session Title</Label>
-                  <Input
-                    id="title"
-                    data-testid="input-session-title"
-                    placeholder="E.g., Code Review: Authentication Module"
-                    value={newSessionTitle}
-                    onChange={(e) => setNewSessionTitle(e.target.value)}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="description">Description (optional)</Label>
-                  <Textarea
-                    id="description"
-                    data-testid="input-session-description"
-                    placeholder="What will you work on in this session?"
-                    value={newSessionDescription}
-                    onChange={(e) => setNewSessionDescription(e.target.value)}
-                    rows={3}
-                  />
-                </div>
-              </div>
-              <DialogFooter>
-                <Button
-                  variant="outline"
-                  onClick={() => setIsCreateDialogOpen(false)}
-                  data-testid="button-cancel-session"
-                  disabled={createSessionMutation.isPending}
-                >
-                  Cancel
-                </Button>
-                <Button 
-                  onClick={handleCreateSession} 
-                  data-testid="button-confirm-session"
-                  disabled={createSessionMutation.isPending}
-                >
-                  {createSessionMutation.isPending ? "Creating..." : "Create Session"}
+            </form>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => logoutMutation.mutate()}
+              data-testid="button-logout"
+            >
+              <LogOut className="h-4 w-4" />
+            </Button>
+            <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+              <DialogTrigger asChild>
+                <Button data-testid="button-create-session" className="gap-2">
+                  <Plus className="h-4 w-4" />
+                  New Session
                 </Button>
-              </DialogFooter>
-            </DialogContent>
-          </Dialog>
+              </DialogTrigger>
+              <DialogContent data-testid="dialog-create-session">
+                <DialogHeader>
+                  <DialogTitle>Create New Session</DialogTitle>
+                  <DialogDescription>
+                    Start a new collaborative coding session
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="title">Session Title</Label>
+                    <Input
+                      id="title"
+                      data-testid="input-session-title"
+                      placeholder="E.g., Code Review: Authentication Module"
+                      value={newSessionTitle}
+                      onChange={(e) => setNewSessionTitle(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="description">Description (optional)</Label>
+                    <Textarea
+                      id="description"
+                      data-testid="input-session-description"
+                      placeholder="What will you work on in this session?"
+                      value={newSessionDescription}
+                      onChange={(e) => setNewSessionDescription(e.target.value)}
+                      rows={3}
+                    />
+                  </div>
+                </div>
+                <DialogFooter>
+                  <Button
+                    variant="outline"
+                    onClick={() => setIsCreateDialogOpen(false)}
+                    data-testid="button-cancel-session"
+                    disabled={createSessionMutation.isPending}
+                  >
+                    Cancel
+                  </Button>
+                  <Button 
+                    onClick={handleCreateSession} 
+                    data-testid="button-confirm-session"
+                    disabled={createSessionMutation.isPending}
+                  >
+                    {createSessionMutation.isPending ? "Creating..." : "Create Session"}
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
       </header>
 
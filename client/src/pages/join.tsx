@@ -0,0 +1,117 @@
+import { useParams, useLocation, Redirect } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2, AlertCircle, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { roleRank, type ParticipantRole } from "@shared/permissions";
+
+interface InvitePreview {
+  sessionId: string;
+  sessionTitle?: string;
+  hostName?: string;
+  role: ParticipantRole;
+  expiresAt: string;
+  currentRole: ParticipantRole | null;
+}
+
+export default function JoinPage() {
+  const params = useParams();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const token = params.token as string;
+
+  const { data: invite, isLoading, error } = useQuery<InvitePreview>({
+    queryKey: ["/api/invites", token],
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/invites/${encodeURIComponent(token)}/accept`);
+    },
+    onSuccess: (data: { sessionId: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      setLocation(`/session/${data.sessionId}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Could not join",
+        description: getErrorMessage(error, "Failed to accept invite"),
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  // Members following an old link go straight in, unless the invite would promote them
+  if (invite?.currentRole && roleRank(invite.currentRole) >= roleRank(invite.role)) {
+    return <Redirect to={`/session/${invite.sessionId}`} />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4">
+      <Card className="w-full max-w-sm">
+        {error || !invite ? (
+          <>
+            <CardHeader>
+              <CardTitle className="text-xl flex items-center gap-2">
+                <AlertCircle className="h-5 w-5 text-destructive" />
+                Invite unavailable
+              </CardTitle>
+              <CardDescription>{getErrorMessage(error, "This invite could not be found")}</CardDescription>
+            </CardHeader>
+            <CardFooter>
+              <Button variant="outline" className="w-full" onClick={() => setLocation("/")} data-testid="button-back-home">
+                Back to Home
+              </Button>
+            </CardFooter>
+          </>
+        ) : (
+          <>
+            <CardHeader>
+              <CardDescription>You've been invited to</CardDescription>
+              <CardTitle className="text-xl" data-testid="text-invite-session">
+                {invite.sessionTitle || "a session"}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {invite.hostName && (
+                <p className="flex items-center gap-2 text-muted-foreground">
+                  <Users className="h-4 w-4" />
+                  Hosted by {invite.hostName}
+                </p>
+              )}
+              <p className="flex items-center gap-2">
+                Joining as
+                <Badge variant="secondary" className="capitalize">{invite.role}</Badge>
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Invite expires {formatDistanceToNow(new Date(invite.expiresAt), { addSuffix: true })}
+              </p>
+            </CardContent>
+            <CardFooter>
+              <Button
+                className="w-full"
+                onClick={() => acceptMutation.mutate()}
+                disabled={acceptMutation.isPending}
+                data-testid="button-accept-invite"
+              >
+                {acceptMutation.isPending ? "Joining..." : "Join session"}
+              </Button>
+            </CardFooter>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
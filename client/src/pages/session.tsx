@@ -1,42 +1,77 @@
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { SessionEditor } from "@/components/session-editor";
+import { SessionEditor, type EditorComment, type RemoteCursor } from "@/components/session-editor";
 import { SnapshotTimeline } from "@/components/snapshot-timeline";
-import { ParticipantList } from "@/components/participant-list";
-import { CommentPanel } from "@/components/comment-panel";
+import { ParticipantList, type UserPresence } from "@/components/participant-list";
+import { CommentPanel, type CommentAnchor, type CommentDraft, type CommentLocation } from "@/components/comment-panel";
+import { InvitePanel } from "@/components/invite-panel";
+import { MergeDialog } from "@/components/merge-dialog";
+import { SnapshotCompare } from "@/components/snapshot-compare";
+import { AutoSnapshotSettings } from "@/components/auto-snapshot-settings";
+import { RetentionSettings } from "@/components/retention-settings";
+import { SnapshotAnnotationsDialog } from "@/components/snapshot-annotations-dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ChevronLeft, ChevronRight, Users, Clock, Camera, MessageSquare, RotateCcw } from "lucide-react";
+import { ChevronLeft, ChevronRight, Users, Clock, Camera, MessageSquare, RotateCcw, UserPlus, History, Timer, GitCompare, ArrowLeftRight, X } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useSessionSocket } from "@/hooks/use-session-socket";
+import { useIdle } from "@/hooks/use-idle";
+import { queryClient, apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { getPresenceColor } from "@/lib/presence";
 import type { Session, Snapshot, InlineComment } from "@shared/schema";
+import { can } from "@shared/permissions";
+import { REMOTE_ORIGIN, getFilesMap, readFiles, encodeUpdate, decodeUpdate } from "@shared/collab";
+import type { PresenceEntry } from "@shared/protocol";
+import { getCommentAnchor, remapCommentRange, type CommentRange, type CommentSuggestion } from "@shared/comments";
+import * as Y from "yjs";
+
+const IDLE_TIMEOUT_MS = 60000;
 
 export default function SessionPage() {
   const params = useParams();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const sessionId = params.id as string;
-  const currentUserId = "fbc686e3-0305-49d5-a92a-462dca28e4fd";
+  const { user } = useAuth();
+  const currentUserId = user!.id;
   
   const [isLeftSidebarOpen, setIsLeftSidebarOpen] = useState(true);
   const [isRightPanelOpen, setIsRightPanelOpen] = useState(true);
   const [currentSnapshotId, setCurrentSnapshotId] = useState<string | undefined>();
-  const [currentFileContent, setCurrentFileContent] = useState<Record<string, string>>({});
+  const [doc, setDoc] = useState<Y.Doc | null>(null);
+  const [livePaths, setLivePaths] = useState<string[]>([]);
+  const [cursorsByUser, setCursorsByUser] = useState<Record<string, Omit<RemoteCursor, "userId" | "name" | "color">>>({});
+  const [connections, setConnections] = useState<Record<string, PresenceEntry>>({});
+  const [activeFilePath, setActiveFilePath] = useState<string | null>(null);
+  const isIdle = useIdle(IDLE_TIMEOUT_MS);
   const [isViewingSnapshot, setIsViewingSnapshot] = useState(false);
   const [snapshotFiles, setSnapshotFiles] = useState<any[]>([]);
-  const wsRef = useRef<WebSocket | null>(null);
-  const saveTimerRef = useRef<Record<string, NodeJS.Timeout>>({});
+  const [mergeSourceId, setMergeSourceId] = useState<string | null>(null);
+  const [isAutoSnapshotsOpen, setIsAutoSnapshotsOpen] = useState(false);
+  const [annotatingSnapshotId, setAnnotatingSnapshotId] = useState<string | null>(null);
+  // Snapshots picked in the timeline for Compare mode, base first
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  // Where the next comment goes, picked from the editor's selection
+  const [commentDraft, setCommentDraft] = useState<CommentDraft | null>(null);
+  const [activeCommentId, setActiveCommentId] = useState<string | null>(null);
+  const [revealTarget, setRevealTarget] = useState<(CommentAnchor & { key: number }) | null>(null);
+  // Bumped shortly after live edits so comment ranges follow the text without re-diffing on every keystroke
+  const [liveRevision, setLiveRevision] = useState(0);
+  const docRef = useRef<Y.Doc | null>(null);
 
   const { data: session, isLoading: sessionLoading } = useQuery<Session & { host: { username: string; avatarUrl: string | null } }>({
     queryKey: ["/api/sessions", sessionId],
   });
 
-  const { data: files } = useQuery<any[]>({
-    queryKey: ["/api/projects", session?.projectId, "files"],
-    enabled: !!session?.projectId,
+  // Comment anchors are stored against the head; live edits are measured from its files
+  const { data: headSnapshot } = useQuery<{ diff: { files: Record<string, string> } }>({
+    queryKey: ["/api/snapshots", session?.headSnapshotId],
+    enabled: Boolean(session?.headSnapshotId),
   });
 
   const { data: snapshots } = useQuery<(Snapshot & { author?: { username: string; avatarUrl: string | null }; _count?: { comments: number } })[]>({
@@ -51,68 +86,225 @@ export default function SessionPage() {
     queryKey: ["/api/sessions", sessionId, "participants"],
   });
 
-  useEffect(() => {
-    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-    const host = window.location.host || `${window.location.hostname}:5000`;
-    const wsUrl = `${protocol}//${host}/ws`;
-    const socket = new WebSocket(wsUrl);
-
-    socket.onopen = () => {
-      socket.send(JSON.stringify({
-        type: 'join-session',
-        sessionId,
-        userId: currentUserId,
+  const seedPresence = (presence: PresenceEntry[]) => {
+    const cursors: Record<string, Omit<RemoteCursor, "userId" | "name" | "color">> = {};
+    for (const peer of presence) {
+      if (peer.cursor && peer.userId !== currentUserId) {
+        cursors[peer.userId] = { filePath: peer.cursor.filePath, anchor: peer.cursor.anchor, head: peer.cursor.head };
+      }
+    }
+    setCursorsByUser(cursors);
+    setConnections(Object.fromEntries(presence.map((peer) => [peer.connectionId, peer])));
+  };
+
+  const { connectionState, send } = useSessionSocket(sessionId, {
+    'session-state': (message) => {
+      const update = decodeUpdate(message.update);
+      const serverVector = Y.encodeStateVectorFromUpdate(update);
+      const localDoc = docRef.current;
+      // The server seeds every document it loads, so a replica that knows none of its writers comes from an earlier copy
+      const localClients = localDoc ? Y.decodeStateVector(Y.encodeStateVector(localDoc)) : new Map<number, number>();
+      const sharesHistory = Array.from(Y.decodeStateVector(serverVector).keys()).some((client) => localClients.has(client));
+
+      if (localDoc && sharesHistory) {
+        // Keep our replica and send back whatever we typed that the server never got
+        Y.applyUpdate(localDoc, update, REMOTE_ORIGIN);
+        const missing = Y.encodeStateAsUpdate(localDoc, serverVector);
+        if (missing.length > 2) {
+          send({ type: 'doc-update', update: encodeUpdate(missing) });
+        }
+      } else {
+        // Merging a replica with a different history would duplicate its text
+        const freshDoc = new Y.Doc();
+        Y.applyUpdate(freshDoc, update, REMOTE_ORIGIN);
+        docRef.current = freshDoc;
+        setDoc(freshDoc);
+      }
+      seedPresence(message.presence);
+    },
+    'session-resumed': (message) => {
+      if (!docRef.current) return;
+      // Send whatever we typed that the server never got before the connection dropped
+      const missing = Y.encodeStateAsUpdate(docRef.current, decodeUpdate(message.stateVector));
+      if (missing.length > 2) {
+        send({ type: 'doc-update', update: encodeUpdate(missing) });
+      }
+      seedPresence(message.presence);
+    },
+    'doc-update': (message) => {
+      if (docRef.current) {
+        Y.applyUpdate(docRef.current, decodeUpdate(message.update), REMOTE_ORIGIN);
+      }
+    },
+    'participant-joined': () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "participants"] });
+    },
+    'participant-left': (message) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "participants"] });
+      setCursorsByUser(({ [message.userId]: _left, ...rest }) => rest);
+    },
+    'cursor-move': (message) => {
+      if (message.userId === currentUserId) return;
+      setCursorsByUser((prev) => ({
+        ...prev,
+        [message.userId]: { filePath: message.filePath, anchor: message.anchor, head: message.head },
       }));
-    };
+    },
+    'presence-update': ({ connectionId, userId, role, status, filePath, online }) => {
+      setConnections(({ [connectionId]: previous, ...rest }) => online
+        ? { ...rest, [connectionId]: { connectionId, userId, role, status, filePath, cursor: previous?.cursor ?? null } }
+        : rest);
+    },
+    'role-changed': (message) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "participants"] });
 
-    socket.onmessage = (event) => {
-      const message = JSON.parse(event.data);
-      
-      if (message.type === 'editor-change' && message.userId !== currentUserId) {
-        setCurrentFileContent((prev) => ({
-          ...prev,
-          [message.filePath]: message.code,
-        }));
+      if (message.userId === currentUserId) {
+        toast({
+          title: "Role changed",
+          description: `You are now ${message.role === "observer" ? "an observer" : "a participant"}`,
+        });
       }
-      
-      if (message.type === 'participant-joined' || message.type === 'participant-left') {
-        queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "participants"] });
+    },
+    'session-status': (message) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId] });
+
+      if (message.status === 'finished') {
+        toast({
+          title: "Session ended",
+          description: "The host has ended this session",
+        });
       }
+    },
+    'snapshot-created': (message) => {
+      // Refresh snapshot list when new snapshot is created; comment anchors have moved onto it
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "snapshots"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "comments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId], exact: true });
       
-      if (message.type === 'snapshot-created') {
-        // Refresh snapshot list when new snapshot is created
-        queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "snapshots"] });
-        
-        // Show toast notification if created by another user
-        if (message.author !== currentUserId) {
-          toast({
-            title: "New snapshot",
-            description: message.description || "A collaborator created a snapshot",
-          });
-        }
+      // Show toast notification if created by another user; automatic snapshots have no author and stay quiet
+      if (message.author && message.author !== currentUserId) {
+        toast({
+          title: "New snapshot",
+          description: message.description || "A collaborator created a snapshot",
+        });
+      }
+    },
+    'snapshot-restored': (message) => {
+      // The restored files arrive as a doc-update; leave any read-only view so the editor shows them
+      setIsViewingSnapshot(false);
+      setSnapshotFiles([]);
+      setCurrentSnapshotId(undefined);
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId], exact: true });
+
+      toast({
+        title: "Snapshot restored",
+        description: message.userId === currentUserId
+          ? "Your previous state was saved as a snapshot first"
+          : "A collaborator rolled the code back; the previous state was saved as a snapshot",
+      });
+    },
+    'snapshot-updated': (message) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "snapshots"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/snapshots", message.snapshotId] });
+    },
+    'comment-added': () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "comments"] });
+    },
+    'comment-updated': (message) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "comments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/comments", message.commentId, "history"] });
+    },
+    'head-changed': (message) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId], exact: true });
+
+      if (message.userId !== currentUserId) {
+        toast({
+          title: "Switched snapshot",
+          description: "A collaborator forked from an earlier snapshot",
+        });
+      }
+    },
+    error: (message) => {
+      toast({
+        variant: "destructive",
+        title: "Session error",
+        description: message.message,
+      });
+    },
+  });
+
+  useEffect(() => {
+    if (!doc) return;
+
+    const filesMap = getFilesMap(doc);
+    const updatePaths = () => setLivePaths(Array.from(filesMap.keys()).sort());
+
+    // Forward only our own edits; updates applied from the server carry REMOTE_ORIGIN
+    const handleUpdate = (update: Uint8Array, origin: unknown) => {
+      if (origin !== REMOTE_ORIGIN) {
+        send({ type: 'doc-update', update: encodeUpdate(update) });
       }
     };
 
-    wsRef.current = socket;
+    let revisionTimer: ReturnType<typeof setTimeout> | undefined;
+    const bumpRevision = () => {
+      clearTimeout(revisionTimer);
+      revisionTimer = setTimeout(() => setLiveRevision((revision) => revision + 1), 300);
+    };
+
+    doc.on('update', handleUpdate);
+    doc.on('update', bumpRevision);
+    filesMap.observe(updatePaths);
+    updatePaths();
 
     return () => {
-      if (socket.readyState === WebSocket.OPEN) {
-        socket.send(JSON.stringify({ type: 'leave-session' }));
-      }
-      socket.close();
+      clearTimeout(revisionTimer);
+      doc.off('update', handleUpdate);
+      doc.off('update', bumpRevision);
+      filesMap.unobserve(updatePaths);
+      doc.destroy();
     };
-  }, [sessionId, currentUserId]);
+  }, [doc, send]);
+
+  useEffect(() => {
+    return () => {
+      docRef.current = null;
+      setDoc(null);
+      setLivePaths([]);
+      setCursorsByUser({});
+      setConnections({});
+    };
+  }, [sessionId]);
+
+  // Re-sent after every (re)join, since the server starts each connection as active with no file
+  useEffect(() => {
+    if (connectionState === "connected") {
+      send({ type: 'presence', status: isIdle ? "idle" : "active", filePath: activeFilePath });
+    }
+  }, [connectionState, isIdle, activeFilePath, send]);
+
+  // One entry per user: active if any of their tabs is, showing the file that tab has open
+  const userPresence = useMemo(() => {
+    const byUser: Record<string, UserPresence> = {};
+    const entries: Array<UserPresence & { userId: string }> = Object.values(connections);
+    if (connectionState === "connected") {
+      entries.push({ userId: currentUserId, status: isIdle ? "idle" : "active", filePath: activeFilePath });
+    }
+    for (const entry of entries) {
+      const current = byUser[entry.userId];
+      if (!current || (current.status === "idle" && entry.status === "active")) {
+        byUser[entry.userId] = { status: entry.status, filePath: entry.filePath };
+      }
+    }
+    return byUser;
+  }, [connections, connectionState, currentUserId, isIdle, activeFilePath]);
 
   const createSnapshotMutation = useMutation({
     mutationFn: async (description: string) => {
-      const filesObject: Record<string, string> = {};
-      Object.entries(currentFileContent).forEach(([path, content]) => {
-        filesObject[path] = content;
-      });
-      
+      const filesObject = doc ? readFiles(doc) : {};
+
       return apiRequest("POST", `/api/sessions/${sessionId}/snapshots`, {
         description,
-        authorId: currentUserId,
         diff: {
           files: filesObject,
         },
@@ -120,6 +312,7 @@ export default function SessionPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "snapshots"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId], exact: true });
       toast({
         title: "Snapshot created",
         description: "Code state captured successfully",
@@ -134,17 +327,69 @@ export default function SessionPage() {
     },
   });
 
+  const forkSnapshotMutation = useMutation({
+    mutationFn: async (snapshotId: string) => {
+      return apiRequest("POST", `/api/snapshots/${snapshotId}/fork`);
+    },
+    onSuccess: () => {
+      // The files themselves arrive as a regular doc-update, so just return to the live view
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId], exact: true });
+      setIsViewingSnapshot(false);
+      setSnapshotFiles([]);
+      toast({
+        title: "Forked snapshot",
+        description: "The editor now holds this snapshot; the next one branches from it",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to fork snapshot"),
+      });
+    },
+  });
+
+  const pinSnapshotMutation = useMutation({
+    mutationFn: async ({ snapshotId, pinned }: { snapshotId: string; pinned: boolean }) => {
+      return apiRequest("PATCH", `/api/snapshots/${snapshotId}/annotations`, { pinned });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "snapshots"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to pin snapshot"),
+      });
+    },
+  });
+
+  const restoreSnapshotMutation = useMutation({
+    mutationFn: async (snapshotId: string) => {
+      return apiRequest("POST", `/api/snapshots/${snapshotId}/restore`);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to restore snapshot"),
+      });
+    },
+  });
+
   const createCommentMutation = useMutation({
-    mutationFn: async (data: { text: string; filePath: string; range: any }) => {
-      if (!currentSnapshotId) {
+    mutationFn: async (data: { text: string; filePath: string; range: CommentRange; suggestion?: CommentSuggestion; snapshotId?: string }) => {
+      if (!data.snapshotId) {
         throw new Error("No snapshot selected");
       }
       return apiRequest("POST", `/api/sessions/${sessionId}/comments`, {
         text: data.text,
         filePath: data.filePath,
         range: data.range,
-        authorId: currentUserId,
-        snapshotId: currentSnapshotId,
+        suggestion: data.suggestion,
+        snapshotId: data.snapshotId,
       });
     },
     onSuccess: () => {
@@ -156,6 +401,58 @@ export default function SessionPage() {
     },
   });
 
+  const replyCommentMutation = useMutation({
+    mutationFn: async ({ commentId, text }: { commentId: string; text: string }) => {
+      return apiRequest("POST", `/api/comments/${commentId}/replies`, { text });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "comments"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: getErrorMessage(error, "Failed to post reply"),
+      });
+    },
+  });
+
+  const applySuggestionMutation = useMutation({
+    mutationFn: async (commentId: string) => {
+      return apiRequest("POST", `/api/comments/${commentId}/suggestion/apply`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "comments"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Couldn't apply suggestion",
+        description: getErrorMessage(error, "Failed to apply suggestion"),
+      });
+    },
+  });
+
+  const applySuggestionsMutation = useMutation({
+    mutationFn: async (commentIds: string[]) => {
+      return apiRequest("POST", `/api/sessions/${sessionId}/suggestions/apply`, { commentIds });
+    },
+    onSuccess: (result: { applied: string[] }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "comments"] });
+      toast({
+        title: "Suggestions applied",
+        description: `Applied ${result.applied.length} ${result.applied.length === 1 ? "suggestion" : "suggestions"} as one snapshot`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Couldn't apply suggestions",
+        description: getErrorMessage(error, "Failed to apply suggestions"),
+      });
+    },
+  });
+
   const updateCommentStatusMutation = useMutation({
     mutationFn: async ({ commentId, status }: { commentId: string; status: string }) => {
       return apiRequest("PATCH", `/api/comments/${commentId}/status`, { status });
@@ -165,57 +462,154 @@ export default function SessionPage() {
     },
   });
 
-  const updateFileMutation = useMutation({
-    mutationFn: async ({ fileId, content }: { fileId: string; content: string }) => {
-      return apiRequest("PATCH", `/api/files/${fileId}`, { content });
+  const editCommentMutation = useMutation({
+    mutationFn: async ({ commentId, text }: { commentId: string; text: string }) => {
+      return apiRequest("PATCH", `/api/comments/${commentId}`, { text });
+    },
+    onSuccess: (_data, { commentId }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "comments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/comments", commentId, "history"] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to edit comment",
+      });
     },
   });
 
-  const handleCodeChange = (code: string, filePath: string) => {
-    setCurrentFileContent((prev) => ({
-      ...prev,
-      [filePath]: code,
-    }));
-
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify({
-        type: 'editor-change',
-        sessionId,
-        code,
-        filePath,
-      }));
-    }
+  const deleteCommentMutation = useMutation({
+    mutationFn: async (commentId: string) => {
+      return apiRequest("DELETE", `/api/comments/${commentId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "comments"] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to delete comment",
+      });
+    },
+  });
 
-    const file = files?.find((f: any) => f.path === filePath);
-    if (file) {
-      if (saveTimerRef.current[filePath]) {
-        clearTimeout(saveTimerRef.current[filePath]);
-      }
-      
-      saveTimerRef.current[filePath] = setTimeout(() => {
-        updateFileMutation.mutate({ fileId: file.id, content: code });
-      }, 1500);
-    }
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: string }) => {
+      return apiRequest("PATCH", `/api/sessions/${sessionId}/participants/${userId}/role`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId, "participants"] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to change role",
+      });
+    },
+  });
+
+  const handleCursorChange = (filePath: string, anchor: unknown, head: unknown) => {
+    send({ type: 'cursor-move', filePath, anchor, head });
   };
 
+  const remoteCursors = useMemo<RemoteCursor[]>(() => Object.entries(cursorsByUser).map(([userId, cursor]) => {
+    const participant = participants?.find((p: any) => p.userId === userId);
+    return {
+      ...cursor,
+      userId,
+      name: participant?.user.displayName || participant?.user.username || "Guest",
+      color: getPresenceColor(userId),
+    };
+  }), [cursorsByUser, participants]);
+
   useEffect(() => {
     if (snapshots && snapshots.length > 0 && !currentSnapshotId) {
       setCurrentSnapshotId(snapshots[snapshots.length - 1].id);
     }
   }, [snapshots, currentSnapshotId]);
 
-  useEffect(() => {
-    return () => {
-      Object.values(saveTimerRef.current).forEach(timer => clearTimeout(timer));
-    };
-  }, []);
-
   const handleTakeSnapshot = (description: string) => {
     createSnapshotMutation.mutate(description);
   };
 
-  const handleAddComment = (text: string, filePath: string, range: any) => {
-    createCommentMutation.mutate({ text, filePath, range });
+  // Where each thread sits in what the editor shows, and whether it can be marked there
+  const commentLocations = useMemo(() => {
+    const headFiles = headSnapshot?.diff.files;
+    const locations = new Map<string, CommentLocation & { shown: boolean }>();
+
+    for (const comment of comments ?? []) {
+      if (comment.parentId) continue;
+      const anchor = getCommentAnchor(comment);
+
+      if (isViewingSnapshot) {
+        // A snapshot shows threads carried onto it where they landed, and threads made on it where they were made
+        const made = comment.snapshotId === currentSnapshotId && anchor.snapshotId !== currentSnapshotId;
+        locations.set(comment.id, made
+          ? { filePath: comment.filePath, range: comment.range, outdated: anchor.outdated, shown: true }
+          : { ...anchor, shown: anchor.snapshotId === currentSnapshotId });
+        continue;
+      }
+
+      const onHead = anchor.snapshotId === session?.headSnapshotId && !anchor.outdated;
+      const liveText = doc ? getFilesMap(doc).get(anchor.filePath)?.toString() : undefined;
+      const headText = headFiles?.[anchor.filePath];
+      if (!onHead || liveText === undefined || headText === undefined) {
+        locations.set(comment.id, { ...anchor, shown: onHead && liveText !== undefined });
+        continue;
+      }
+
+      const remapped = remapCommentRange(anchor.range, headText, liveText);
+      locations.set(comment.id, { filePath: anchor.filePath, ...remapped, shown: !remapped.outdated });
+    }
+    return locations;
+  }, [comments, headSnapshot, session?.headSnapshotId, isViewingSnapshot, currentSnapshotId, doc, liveRevision]);
+
+  // Open threads are marked in the editor's gutter
+  const editorComments = useMemo<EditorComment[]>(() => (comments ?? []).flatMap((comment) => {
+    const location = commentLocations.get(comment.id);
+    if (!location?.shown || comment.status !== "open" || comment.deletedAt) return [];
+    return [{
+      id: comment.id,
+      filePath: location.filePath,
+      range: location.range,
+      text: comment.text,
+      authorName: comment.author?.username ?? "Unknown",
+      replyCount: comments?.filter((reply) => reply.parentId === comment.id).length ?? 0,
+    }];
+  }), [comments, commentLocations]);
+
+  const handleSelectComment = (comment: InlineComment) => {
+    const location = commentLocations.get(comment.id);
+    setActiveCommentId(comment.id);
+    if (!location?.shown) return;
+    setCompareIds([]);
+    setRevealTarget({ filePath: location.filePath, range: location.range, key: Date.now() });
+  };
+
+  const handleAddComment = (text: string, filePath: string, range: CommentRange, suggestion?: CommentSuggestion) => {
+    if (isViewingSnapshot) {
+      createCommentMutation.mutate({ text, filePath, range, suggestion, snapshotId: currentSnapshotId });
+      return;
+    }
+
+    // Live selections are stored against the head, where anchors are kept; lines only typed since stay as selected
+    const headText = headSnapshot?.diff.files[filePath];
+    const liveText = doc ? getFilesMap(doc).get(filePath)?.toString() : undefined;
+    const anchored = headText !== undefined && liveText !== undefined ? remapCommentRange(range, liveText, headText) : null;
+    createCommentMutation.mutate({
+      text,
+      filePath,
+      range: anchored && !anchored.outdated ? anchored.range : range,
+      suggestion,
+      snapshotId: session?.headSnapshotId ?? currentSnapshotId,
+    });
+  };
+
+  const handleReplyComment = (commentId: string, text: string) => {
+    replyCommentMutation.mutate({ commentId, text });
   };
 
   const handleResolveComment = (commentId: string) => {
@@ -226,7 +620,18 @@ export default function SessionPage() {
     updateCommentStatusMutation.mutate({ commentId, status: "open" });
   };
 
-  const handleRestoreSnapshot = async (snapshotId: string) => {
+  const handleCompareSnapshot = (snapshotId: string) => {
+    setCompareIds((current) => {
+      if (current.includes(snapshotId)) return current.filter((id) => id !== snapshotId);
+      // A third pick replaces the snapshot being compared against the base
+      return [current[0], snapshotId].filter(Boolean).slice(0, 2);
+    });
+  };
+
+  const getSnapshotLabel = (snapshotId: string) =>
+    snapshots?.find((snapshot) => snapshot.id === snapshotId)?.description || "Unnamed snapshot";
+
+  const handleViewSnapshot = async (snapshotId: string) => {
     try {
       const response = await fetch(`/api/snapshots/${snapshotId}`);
       
@@ -278,7 +683,7 @@ export default function SessionPage() {
         description: `Viewing snapshot from ${new Date(snapshot.timestamp).toLocaleString()}`,
       });
     } catch (error) {
-      console.error('Restore snapshot error:', error);
+      console.error('View snapshot error:', error);
       toast({
         variant: "destructive",
         title: "Error",
@@ -287,33 +692,37 @@ export default function SessionPage() {
     }
   };
 
-  const handleBackToLive = async () => {
-    try {
-      // Exit snapshot view mode
-      setIsViewingSnapshot(false);
-      setSnapshotFiles([]);
-      setCurrentSnapshotId(undefined);
-      
-      // Refetch latest files from database to ensure state is current
-      await queryClient.refetchQueries({ 
-        queryKey: ["/api/projects", session?.projectId, "files"] 
-      });
-      
-      toast({
-        title: "Back to live editing",
-        description: "Editing mode restored with latest changes",
-      });
-    } catch (error) {
-      console.error('Error returning to live mode:', error);
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: "Failed to reload live files",
-      });
-    }
+  const handleBackToLive = () => {
+    // The live document kept syncing in the background, so there is nothing to reload
+    setIsViewingSnapshot(false);
+    setSnapshotFiles([]);
+    setCurrentSnapshotId(undefined);
+
+    toast({
+      title: "Back to live editing",
+      description: "Editing mode restored with latest changes",
+    });
   };
 
-  const handleEndSession = () => {
+  const handleChangeRole = (userId: string, role: "participant" | "observer") => {
+    updateRoleMutation.mutate({ userId, role });
+  };
+
+  const handleEndSession = async () => {
+    // Ending as host closes the session for everyone and flushes the final files
+    if (canManage) {
+      try {
+        await apiRequest("PATCH", `/api/sessions/${sessionId}/status`, { status: "finished" });
+        queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      } catch (error: any) {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: error.message || "Failed to end session",
+        });
+        return;
+      }
+    }
     setLocation("/");
   };
 
@@ -332,6 +741,13 @@ export default function SessionPage() {
     );
   }
 
+  const myRole = session?.hostId === currentUserId
+    ? "host"
+    : participants?.find((p: any) => p.userId === currentUserId)?.role;
+  const canEdit = can(myRole, "edit");
+  const canComment = can(myRole, "comment");
+  const canManage = can(myRole, "manage");
+
   if (!session) {
     return (
       <div className="h-screen flex items-center justify-center">
@@ -371,7 +787,64 @@ export default function SessionPage() {
               LIVE
             </Badge>
           )}
-          <ParticipantList participants={participants || []} variant="compact" />
+          <ParticipantList participants={participants || []} presence={userPresence} variant="compact" />
+          {canManage && (
+            <Dialog>
+              <DialogTrigger asChild>
+                <Button size="sm" variant="outline" className="gap-1" data-testid="button-invite">
+                  <UserPlus className="h-4 w-4" />
+                  Invite
+                </Button>
+              </DialogTrigger>
+              <DialogContent data-testid="dialog-invite">
+                <DialogHeader>
+                  <DialogTitle>Invite people</DialogTitle>
+                  <DialogDescription>
+                    Share a link or a join code. Anyone who uses it joins with the role you pick.
+                  </DialogDescription>
+                </DialogHeader>
+                <InvitePanel sessionId={sessionId} />
+              </DialogContent>
+            </Dialog>
+          )}
+          {canManage && (
+            <Dialog open={isAutoSnapshotsOpen} onOpenChange={setIsAutoSnapshotsOpen}>
+              <DialogTrigger asChild>
+                <Button size="sm" variant="outline" className="gap-1" data-testid="button-auto-snapshots">
+                  <Timer className="h-4 w-4" />
+                  Auto-snapshots
+                </Button>
+              </DialogTrigger>
+              <DialogContent data-testid="dialog-auto-snapshots">
+                <DialogHeader>
+                  <DialogTitle>Automatic snapshots</DialogTitle>
+                  <DialogDescription>
+                    The server snapshots the live files whenever an enabled rule is met and something changed.
+                  </DialogDescription>
+                </DialogHeader>
+                <Tabs defaultValue="policy">
+                  <TabsList className="w-full grid grid-cols-2">
+                    <TabsTrigger value="policy" data-testid="tab-auto-snapshot-policy">This session</TabsTrigger>
+                    <TabsTrigger value="retention" disabled={!session.projectId} data-testid="tab-retention">
+                      Retention
+                    </TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="policy" className="pt-2">
+                    <AutoSnapshotSettings
+                      sessionId={sessionId}
+                      policy={session.autoSnapshotPolicy}
+                      onSaved={() => setIsAutoSnapshotsOpen(false)}
+                    />
+                  </TabsContent>
+                  {session.projectId && (
+                    <TabsContent value="retention" className="pt-2">
+                      <RetentionSettings projectId={session.projectId} />
+                    </TabsContent>
+                  )}
+                </Tabs>
+              </DialogContent>
+            </Dialog>
+          )}
         </div>
       </header>
 
@@ -396,18 +869,62 @@ export default function SessionPage() {
                   snapshots={snapshots || []}
                   currentSnapshotId={currentSnapshotId}
                   onSelectSnapshot={setCurrentSnapshotId}
-                  onRestoreSnapshot={handleRestoreSnapshot}
+                  headSnapshotId={session?.headSnapshotId}
+                  onViewSnapshot={handleViewSnapshot}
+                  onRestoreSnapshot={canEdit ? (snapshotId) => restoreSnapshotMutation.mutate(snapshotId) : undefined}
+                  onForkSnapshot={canEdit ? (snapshotId) => forkSnapshotMutation.mutate(snapshotId) : undefined}
+                  onMergeSnapshot={canEdit ? setMergeSourceId : undefined}
+                  onAnnotateSnapshot={canEdit ? setAnnotatingSnapshotId : undefined}
+                  onTogglePin={canEdit ? (snapshotId, pinned) => pinSnapshotMutation.mutate({ snapshotId, pinned }) : undefined}
+                  compareIds={compareIds}
+                  onCompareSnapshot={handleCompareSnapshot}
                 />
               </TabsContent>
               <TabsContent value="participants" className="flex-1 overflow-hidden m-0">
-                <ParticipantList participants={participants || []} variant="detailed" />
+                <ParticipantList
+                  participants={participants || []}
+                  presence={userPresence}
+                  variant="detailed"
+                  onChangeRole={canManage ? handleChangeRole : undefined}
+                />
               </TabsContent>
             </Tabs>
           </div>
         )}
 
         <div className="flex-1 flex flex-col overflow-hidden">
-          {isViewingSnapshot && (
+          {compareIds.length > 0 && (
+            <div className="bg-blue-500/15 border-b border-blue-500/40 px-4 py-2 flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 text-sm min-w-0">
+                <GitCompare className="h-4 w-4 shrink-0" />
+                <span className="font-medium shrink-0">Compare</span>
+                <span className="text-muted-foreground truncate">
+                  {compareIds.length === 1
+                    ? `"${getSnapshotLabel(compareIds[0])}" with... pick another snapshot in the timeline`
+                    : `"${getSnapshotLabel(compareIds[0])}" → "${getSnapshotLabel(compareIds[1])}"`}
+                </span>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {compareIds.length === 2 && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setCompareIds(([from, to]) => [to, from])}
+                    data-testid="button-swap-compare"
+                  >
+                    <ArrowLeftRight className="h-4 w-4 mr-1" />
+                    Swap
+                  </Button>
+                )}
+                <Button size="sm" variant="default" onClick={() => setCompareIds([])} data-testid="button-close-compare">
+                  <X className="h-4 w-4 mr-1" />
+                  Close
+                </Button>
+              </div>
+            </div>
+          )}
+          {compareIds.length === 2 && <SnapshotCompare fromId={compareIds[0]} toId={compareIds[1]} />}
+          {isViewingSnapshot && compareIds.length < 2 && (
             <div className="bg-amber-500/20 border-b border-amber-500/50 px-4 py-2 flex items-center justify-between">
               <div className="flex items-center gap-2 text-sm">
                 <Camera className="h-4 w-4" />
@@ -416,31 +933,55 @@ export default function SessionPage() {
                   - Read-only mode. Click "Back to Live" to resume editing.
                 </span>
               </div>
-              <Button
-                size="sm"
-                variant="default"
-                onClick={handleBackToLive}
-                data-testid="button-back-to-live"
-              >
-                <RotateCcw className="h-4 w-4 mr-1" />
-                Back to Live
-              </Button>
+              <div className="flex items-center gap-2">
+                {canEdit && currentSnapshotId && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => restoreSnapshotMutation.mutate(currentSnapshotId)}
+                    disabled={restoreSnapshotMutation.isPending}
+                    data-testid="button-restore-viewed-snapshot"
+                  >
+                    <History className="h-4 w-4 mr-1" />
+                    {restoreSnapshotMutation.isPending ? "Restoring..." : "Restore this snapshot"}
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="default"
+                  onClick={handleBackToLive}
+                  data-testid="button-back-to-live"
+                >
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Back to Live
+                </Button>
+              </div>
             </div>
           )}
+          <div className={compareIds.length === 2 ? "hidden" : "flex-1 flex flex-col overflow-hidden"}>
           <SessionEditor
             sessionId={sessionId}
-            initialFiles={isViewingSnapshot ? snapshotFiles : (files?.map((f: any) => ({
-              name: f.name,
-              path: f.path,
-              type: f.type || 'file',
-              content: f.content || '',
-            })) || [])}
-            onCodeChange={isViewingSnapshot ? undefined : handleCodeChange}
-            onTakeSnapshot={handleTakeSnapshot}
+            initialFiles={isViewingSnapshot ? snapshotFiles : livePaths.map((path) => ({
+              name: path.split('/').pop() || path,
+              path,
+              type: 'file' as const,
+              content: doc ? getFilesMap(doc).get(path)?.toString() : '',
+            }))}
+            doc={isViewingSnapshot ? undefined : doc ?? undefined}
+            onCursorChange={handleCursorChange}
+            onActiveFileChange={setActiveFilePath}
+            remoteCursors={remoteCursors}
+            onTakeSnapshot={canEdit ? handleTakeSnapshot : undefined}
             onEndSession={handleEndSession}
             currentUserId={currentUserId}
-            readOnly={isViewingSnapshot}
+            connectionState={isViewingSnapshot ? undefined : connectionState}
+            readOnly={isViewingSnapshot || !canEdit || !doc || connectionState !== "connected"}
+            comments={editorComments}
+            onRequestComment={canComment ? (filePath, range, selectedText) => setCommentDraft({ filePath, range, selectedText }) : undefined}
+            onCommentClick={setActiveCommentId}
+            revealTarget={revealTarget}
           />
+          </div>
         </div>
 
         {isRightPanelOpen && (
@@ -448,12 +989,41 @@ export default function SessionPage() {
             <CommentPanel
               comments={(comments as any) || []}
               onAddComment={handleAddComment}
+              onReplyComment={handleReplyComment}
+              onSelectComment={handleSelectComment}
+              locations={commentLocations}
+              activeCommentId={activeCommentId}
+              draftAnchor={commentDraft}
+              onClearDraftAnchor={() => setCommentDraft(null)}
+              onApplySuggestion={canEdit && !isViewingSnapshot ? (commentId) => applySuggestionMutation.mutate(commentId) : undefined}
+              onApplySuggestions={canEdit && !isViewingSnapshot ? (commentIds) => applySuggestionsMutation.mutate(commentIds) : undefined}
               onResolveComment={handleResolveComment}
               onUnresolveComment={handleUnresolveComment}
+              onEditComment={(commentId, text) => editCommentMutation.mutate({ commentId, text })}
+              onDeleteComment={(commentId) => deleteCommentMutation.mutate(commentId)}
+              currentUserId={currentUserId}
+              canComment={canComment}
             />
           </div>
         )}
       </div>
+
+      {session?.headSnapshotId && (
+        <MergeDialog
+          sessionId={sessionId}
+          oursId={session.headSnapshotId}
+          theirsId={mergeSourceId}
+          theirsLabel={snapshots?.find((snapshot) => snapshot.id === mergeSourceId)?.description ?? undefined}
+          onOpenChange={(open) => !open && setMergeSourceId(null)}
+        />
+      )}
+
+      <SnapshotAnnotationsDialog
+        sessionId={sessionId}
+        snapshot={snapshots?.find((snapshot) => snapshot.id === annotatingSnapshotId) ?? null}
+        knownTags={Array.from(new Set((snapshots ?? []).flatMap((snapshot) => snapshot.tags ?? []))).sort()}
+        onOpenChange={(open) => !open && setAnnotatingSnapshotId(null)}
+      />
     </div>
   );
 }
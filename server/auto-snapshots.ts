@@ -0,0 +1,124 @@
+import { storage } from "./storage";
+import { withAdvisoryLock } from "./db";
+import { getLiveDocument, getLiveSessionIds, isLive } from "./collab";
+import { diffFiles, summarizeChanges } from "./diff";
+import { getHeadSnapshot, sameFiles, takeSnapshot } from "./snapshots";
+import { readFiles } from "@shared/collab";
+import type { AutoSnapshotPolicy, Snapshot } from "@shared/schema";
+
+const CHECK_INTERVAL_MS = 5000;
+
+interface PendingChanges {
+  /** The head the changes are measured against, and its files */
+  headId: string | null;
+  headFiles: Record<string, string>;
+  /** When the first change after that head was noticed */
+  since: number;
+  /** lastEditedAt when linesChanged was computed, so unchanged documents aren't diffed again */
+  measuredAt: number | null;
+  linesChanged: number;
+}
+
+// Per live session, what has changed since its last snapshot
+const pending = new Map<string, PendingChanges>();
+
+function isEnabled(policy: AutoSnapshotPolicy | null | undefined): policy is AutoSnapshotPolicy {
+  return Boolean(policy && (policy.intervalMinutes || policy.idleSeconds || policy.changedLines));
+}
+
+// Which rule, if any, says a snapshot is due now
+function getDueReason(policy: AutoSnapshotPolicy, changes: PendingChanges, lastEditedAt: number, now: number): string | null {
+  if (policy.changedLines && changes.linesChanged >= policy.changedLines) {
+    return `${changes.linesChanged} changed lines`;
+  }
+  if (policy.idleSeconds && now - lastEditedAt >= policy.idleSeconds * 1000) {
+    return `idle for ${policy.idleSeconds}s`;
+  }
+  if (policy.intervalMinutes && now - changes.since >= policy.intervalMinutes * 60 * 1000) {
+    return `every ${policy.intervalMinutes} min`;
+  }
+  return null;
+}
+
+async function checkSession(sessionId: string, onSnapshot: (snapshot: Snapshot) => void): Promise<void> {
+  // Everyone may have left since the round started; don't load the document again
+  if (!isLive(sessionId)) return;
+  const live = await getLiveDocument(sessionId);
+  if (live.lastEditedAt === null) return;
+
+  const session = await storage.getSession(sessionId);
+  if (!session || !isEnabled(session.autoSnapshotPolicy)) {
+    pending.delete(sessionId);
+    return;
+  }
+
+  const head = await getHeadSnapshot(sessionId);
+  let changes = pending.get(sessionId);
+  if (!changes || changes.headId !== (head?.id ?? null)) {
+    changes = {
+      headId: head?.id ?? null,
+      headFiles: head ? await storage.getSnapshotFiles(head) : {},
+      since: Date.now(),
+      measuredAt: null,
+      linesChanged: 0,
+    };
+    pending.set(sessionId, changes);
+  }
+
+  const files = readFiles(live.doc);
+  if (sameFiles(files, changes.headFiles)) {
+    // Nothing to record; the interval starts counting again from the next change
+    changes.since = Date.now();
+    return;
+  }
+
+  if (session.autoSnapshotPolicy.changedLines && changes.measuredAt !== live.lastEditedAt) {
+    changes.linesChanged = summarizeChanges(diffFiles(changes.headFiles, files)).linesChanged;
+    changes.measuredAt = live.lastEditedAt;
+  }
+
+  const reason = getDueReason(session.autoSnapshotPolicy, changes, live.lastEditedAt, Date.now());
+  if (!reason) return;
+
+  const snapshot = await takeSnapshot({
+    sessionId,
+    authorId: null,
+    description: `Automatic snapshot (${reason})`,
+    files,
+    automatic: true,
+  });
+  pending.delete(sessionId);
+  onSnapshot(snapshot);
+}
+
+/**
+ * Periodically takes snapshots of live sessions whose policy calls for one.
+ * Sessions are read straight from their live documents, so edits that have
+ * not been flushed yet are included.
+ */
+export function startAutoSnapshots(onSnapshot: (snapshot: Snapshot) => void): void {
+  let checking = false;
+
+  setInterval(async () => {
+    // A slow round must finish before the next starts, or a session could be snapshotted twice
+    if (checking) return;
+    checking = true;
+    try {
+      const sessionIds = getLiveSessionIds();
+      pending.forEach((_changes, sessionId) => {
+        if (!sessionIds.includes(sessionId)) pending.delete(sessionId);
+      });
+
+      for (const sessionId of sessionIds) {
+        try {
+          // Every process holding the session checks it; the lock keeps them from each taking the same snapshot
+          await withAdvisoryLock(`auto-snapshot:${sessionId}`, () => checkSession(sessionId, onSnapshot));
+        } catch (error) {
+          console.error(`Error taking automatic snapshot of session ${sessionId}:`, error);
+        }
+      }
+    } finally {
+      checking = false;
+    }
+  }, CHECK_INTERVAL_MS).unref();
+}
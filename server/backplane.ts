@@ -0,0 +1,208 @@
+import { randomUUID } from "crypto";
+import type { PoolClient } from "@neondatabase/serverless";
+import { pool } from "./db";
+
+const CHANNEL = "pairwise_realtime";
+// NOTIFY payloads are capped at 8000 bytes; larger envelopes go out in pieces
+const MAX_CHUNK_LENGTH = 7000;
+const RECONNECT_DELAY_MS = 2000;
+// Processes announce themselves this often, and count as gone after missing a few announcements
+const ANNOUNCE_INTERVAL_MS = 10000;
+const PEER_TIMEOUT_MS = 3 * ANNOUNCE_INTERVAL_MS;
+// A payload still missing chunks after this long lost one of them and is dropped
+const PARTIAL_TIMEOUT_MS = 30000;
+// Control messages start with this, which no payload id (a UUID) does
+const CONTROL_PREFIX = "@";
+
+export type BackplaneHandler = (payload: unknown) => void;
+
+/**
+ * Fans realtime events out to every server process. Payloads must be
+ * JSON-serializable; each subscriber also receives what its own process publishes.
+ */
+export interface Backplane {
+  publish(payload: unknown): Promise<void>;
+  subscribe(handler: BackplaneHandler): void;
+  /** Whether anything else could be listening, i.e. whether asking peers is worth the wait */
+  hasPeers(): boolean;
+  close(): Promise<void>;
+}
+
+// Shared by every InProcessBackplane, so several realtime servers in one process see each other
+const inProcessSubscribers = new Set<BackplaneHandler>();
+
+export class InProcessBackplane implements Backplane {
+  private handlers = new Set<BackplaneHandler>();
+
+  async publish(payload: unknown): Promise<void> {
+    // Round-trip through JSON so payloads behave exactly as they would over the wire
+    const serialized = JSON.stringify(payload);
+    inProcessSubscribers.forEach((handler) => handler(JSON.parse(serialized)));
+  }
+
+  subscribe(handler: BackplaneHandler): void {
+    this.handlers.add(handler);
+    inProcessSubscribers.add(handler);
+  }
+
+  hasPeers(): boolean {
+    return inProcessSubscribers.size > this.handlers.size;
+  }
+
+  async close(): Promise<void> {
+    this.handlers.forEach((handler) => inProcessSubscribers.delete(handler));
+    this.handlers.clear();
+  }
+}
+
+export class PostgresBackplane implements Backplane {
+  private handlers = new Set<BackplaneHandler>();
+  private listener: PoolClient | null = null;
+  private closed = false;
+  // One NOTIFY at a time, so the chunks of a payload and consecutive payloads stay in order
+  private publishing = Promise.resolve();
+  private partial = new Map<string, { chunks: string[]; startedAt: number }>();
+  private readonly nodeId = randomUUID();
+  // Other processes on the channel, and when each last announced itself
+  private peers = new Map<string, number>();
+  private housekeeping: NodeJS.Timeout;
+
+  constructor() {
+    this.listen();
+    this.housekeeping = setInterval(() => {
+      this.announce("here");
+      this.expire();
+    }, ANNOUNCE_INTERVAL_MS);
+    this.housekeeping.unref();
+  }
+
+  publish(payload: unknown): Promise<void> {
+    const encoded = Buffer.from(JSON.stringify(payload)).toString("base64");
+    const id = randomUUID();
+    const total = Math.max(1, Math.ceil(encoded.length / MAX_CHUNK_LENGTH));
+
+    const run = this.publishing.then(async () => {
+      for (let index = 0; index < total; index++) {
+        const chunk = encoded.slice(index * MAX_CHUNK_LENGTH, (index + 1) * MAX_CHUNK_LENGTH);
+        await pool.query("SELECT pg_notify($1, $2)", [CHANNEL, `${id}:${index}:${total}:${chunk}`]);
+      }
+    });
+    this.publishing = run.catch(() => undefined);
+    return run;
+  }
+
+  subscribe(handler: BackplaneHandler): void {
+    this.handlers.add(handler);
+  }
+
+  hasPeers(): boolean {
+    this.expire();
+    return this.peers.size > 0;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    clearInterval(this.housekeeping);
+    await this.announce("leave");
+    this.handlers.clear();
+    if (this.listener) {
+      this.listener.release();
+      this.listener = null;
+    }
+  }
+
+  private async listen(): Promise<void> {
+    try {
+      const client = await pool.connect();
+      client.on("notification", (notification) => {
+        if (notification.channel === CHANNEL && notification.payload) {
+          this.receive(notification.payload);
+        }
+      });
+      client.on("error", (error) => {
+        console.error("Realtime backplane connection lost:", error);
+        client.release(error);
+        this.listener = null;
+        this.retry();
+      });
+      await client.query(`LISTEN ${CHANNEL}`);
+      this.listener = client;
+      // Asks everyone already listening to answer, so a new process knows its peers right away
+      await this.announce("hello");
+    } catch (error) {
+      console.error("Error subscribing to realtime backplane:", error);
+      this.retry();
+    }
+  }
+
+  private retry(): void {
+    if (this.closed) return;
+    setTimeout(() => this.listen(), RECONNECT_DELAY_MS).unref();
+  }
+
+  // "hello" is sent on joining and asks the others to answer "here"; "leave" is sent on closing
+  private async announce(kind: "hello" | "here" | "leave"): Promise<void> {
+    try {
+      await pool.query("SELECT pg_notify($1, $2)", [CHANNEL, `${CONTROL_PREFIX}${kind}:${this.nodeId}`]);
+    } catch (error) {
+      console.error("Error announcing to realtime backplane:", error);
+    }
+  }
+
+  private expire(): void {
+    const now = Date.now();
+    this.peers.forEach((lastSeen, nodeId) => {
+      if (now - lastSeen > PEER_TIMEOUT_MS) this.peers.delete(nodeId);
+    });
+    this.partial.forEach(({ startedAt }, id) => {
+      if (now - startedAt > PARTIAL_TIMEOUT_MS) this.partial.delete(id);
+    });
+  }
+
+  private receiveControl(raw: string): void {
+    const [kind, nodeId] = raw.slice(CONTROL_PREFIX.length).split(":");
+    if (nodeId === this.nodeId) return;
+
+    if (kind === "leave") {
+      this.peers.delete(nodeId);
+      return;
+    }
+    this.peers.set(nodeId, Date.now());
+    if (kind === "hello") {
+      this.announce("here");
+    }
+  }
+
+  private receive(raw: string): void {
+    if (raw.startsWith(CONTROL_PREFIX)) {
+      this.receiveControl(raw);
+      return;
+    }
+
+    const [id, index, total, chunk] = raw.split(":");
+    const count = Number(total);
+    const pending = this.partial.get(id) ?? { chunks: new Array<string>(count), startedAt: Date.now() };
+    const { chunks } = pending;
+    chunks[Number(index)] = chunk;
+
+    if (chunks.filter((part) => part !== undefined).length < count) {
+      this.partial.set(id, pending);
+      return;
+    }
+    this.partial.delete(id);
+
+    try {
+      const payload = JSON.parse(Buffer.from(chunks.join(""), "base64").toString());
+      this.handlers.forEach((handler) => handler(payload));
+    } catch (error) {
+      console.error("Error handling realtime backplane message:", error);
+    }
+  }
+}
+
+// REALTIME_BACKPLANE=postgres lets several server processes share sessions through the database
+export function createBackplane(): Backplane {
+  return process.env.REALTIME_BACKPLANE === "postgres"
+    ? new PostgresBackplane()
+    : new InProcessBackplane();
+}
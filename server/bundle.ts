@@ -0,0 +1,194 @@
+import { createHash } from "crypto";
+import { gunzipSync, gzipSync } from "zlib";
+import { z } from "zod";
+import { snapshotTagsSchema } from "@shared/snapshots";
+
+/**
+ * Snapshot bundles are gzipped tarballs: `manifest.json` describing the
+ * snapshot and its files, and each file's content under `files/`.
+ */
+const MANIFEST_PATH = "manifest.json";
+const FILES_DIR = "files/";
+const BLOCK_SIZE = 512;
+// Guards against archives that inflate to far more than any session holds
+const MAX_UNPACKED_BYTES = 100 * 1024 * 1024;
+
+export const bundleManifestSchema = z.object({
+  format: z.literal("pairwise-snapshot"),
+  version: z.literal(1),
+  snapshot: z.object({
+    id: z.string(),
+    description: z.string().nullable(),
+    timestamp: z.string(),
+    // Held to the same rules as tags and notes set through the API
+    tags: snapshotTagsSchema.default([]),
+    note: z.string().max(20000).nullable().default(null),
+  }),
+  session: z.object({ id: z.string(), title: z.string() }).nullable().default(null),
+  files: z.array(z.object({
+    path: z.string(),
+    sha256: z.string(),
+    size: z.number().int().nonnegative(),
+  })),
+});
+
+export type BundleManifest = z.infer<typeof bundleManifestSchema>;
+
+function sha256(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+// Paths stay inside the bundle and the project: no absolute paths and no climbing out with ".."
+function isSafePath(path: string): boolean {
+  return path.length > 0 && !path.startsWith("/") && !path.split("/").some((segment) => segment === ".." || segment === "");
+}
+
+function writeString(block: Buffer, value: string, offset: number, length: number) {
+  block.write(value, offset, Math.min(length, Buffer.byteLength(value)), "utf8");
+}
+
+function writeOctal(block: Buffer, value: number, offset: number, length: number) {
+  writeString(block, `${value.toString(8).padStart(length - 1, "0")}\0`, offset, length);
+}
+
+function tarHeader(name: string, size: number, type: string, mtime: number): Buffer {
+  const block = Buffer.alloc(BLOCK_SIZE);
+  writeString(block, name, 0, 100);
+  writeOctal(block, 0o644, 100, 8);
+  writeOctal(block, 0, 108, 8);
+  writeOctal(block, 0, 116, 8);
+  writeOctal(block, size, 124, 12);
+  writeOctal(block, mtime, 136, 12);
+  block.fill(" ", 148, 156);
+  writeString(block, type, 156, 1);
+  writeString(block, "ustar\0", 257, 6);
+  writeString(block, "00", 263, 2);
+
+  const checksum = block.reduce((sum, byte) => sum + byte, 0);
+  writeString(block, `${checksum.toString(8).padStart(6, "0")}\0 `, 148, 8);
+  return block;
+}
+
+function padding(size: number): Buffer {
+  return Buffer.alloc((BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE);
+}
+
+// Names too long for the header go in a PAX extended header record instead
+function paxRecord(key: string, value: string): Buffer {
+  const body = ` ${key}=${value}\n`;
+  let length = Buffer.byteLength(body);
+  while (Buffer.byteLength(`${length}${body}`) !== length) {
+    length = Buffer.byteLength(`${length}${body}`);
+  }
+  return Buffer.from(`${length}${body}`);
+}
+
+function tarEntry(name: string, content: Buffer, mtime: number): Buffer[] {
+  const parts: Buffer[] = [];
+  if (Buffer.byteLength(name) > 100) {
+    const pax = paxRecord("path", name);
+    parts.push(tarHeader("PaxHeader", pax.length, "x", mtime), pax, padding(pax.length));
+  }
+  parts.push(tarHeader(name, content.length, "0", mtime), content, padding(content.length));
+  return parts;
+}
+
+export function createSnapshotBundle(
+  snapshot: BundleManifest["snapshot"],
+  session: BundleManifest["session"],
+  files: Record<string, string>,
+): Buffer {
+  const paths = Object.keys(files).sort();
+  const manifest: BundleManifest = {
+    format: "pairwise-snapshot",
+    version: 1,
+    snapshot,
+    session,
+    files: paths.map((path) => ({ path, sha256: sha256(files[path]), size: Buffer.byteLength(files[path]) })),
+  };
+
+  const mtime = Math.floor(new Date(snapshot.timestamp).getTime() / 1000);
+  const parts = [
+    ...tarEntry(MANIFEST_PATH, Buffer.from(JSON.stringify(manifest, null, 2)), mtime),
+    ...paths.flatMap((path) => tarEntry(`${FILES_DIR}${path}`, Buffer.from(files[path]), mtime)),
+    Buffer.alloc(BLOCK_SIZE * 2),
+  ];
+  return gzipSync(Buffer.concat(parts));
+}
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString("utf8");
+}
+
+function readTar(archive: Buffer): Map<string, Buffer> {
+  const entries = new Map<string, Buffer>();
+  let offset = 0;
+  let longName: string | null = null;
+
+  while (offset + BLOCK_SIZE <= archive.length) {
+    const header = archive.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) break;
+
+    const size = parseInt(readString(header, 124, 12).trim() || "0", 8);
+    const type = readString(header, 156, 1) || "0";
+    const prefix = readString(header, 257, 5) === "ustar" ? readString(header, 345, 155) : "";
+    const name = longName ?? (prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100));
+    const content = archive.subarray(offset + BLOCK_SIZE, offset + BLOCK_SIZE + size);
+    if (Number.isNaN(size) || content.length < size) {
+      throw new Error("The bundle is not a valid tar archive");
+    }
+    offset += BLOCK_SIZE + size + padding(size).length;
+
+    if (type === "x") {
+      const path = content.toString("utf8").split("\n").find((record) => / path=/.test(record));
+      longName = path ? path.slice(path.indexOf("=") + 1) : null;
+      continue;
+    }
+    if (type === "L") {
+      longName = readString(content, 0, content.length);
+      continue;
+    }
+    longName = null;
+    if (type === "0" || type === "7") {
+      entries.set(name.replace(/^\.\//, ""), content);
+    }
+  }
+
+  return entries;
+}
+
+/** Unpacks and checks a bundle; throws with a readable message when it can't be used */
+export function readSnapshotBundle(bundle: Buffer): { manifest: BundleManifest; files: Record<string, string> } {
+  let entries: Map<string, Buffer>;
+  try {
+    entries = readTar(gunzipSync(bundle, { maxOutputLength: MAX_UNPACKED_BYTES }));
+  } catch (error: any) {
+    throw new Error(error?.message?.startsWith("The bundle") ? error.message : "The bundle is not a gzipped tar archive");
+  }
+
+  const manifestEntry = entries.get(MANIFEST_PATH);
+  if (!manifestEntry) {
+    throw new Error("The bundle has no manifest.json");
+  }
+  const parsed = bundleManifestSchema.safeParse(JSON.parse(manifestEntry.toString("utf8")));
+  if (!parsed.success) {
+    throw new Error(`The bundle's manifest is invalid: ${parsed.error.issues[0].message}`);
+  }
+
+  const files: Record<string, string> = {};
+  for (const file of parsed.data.files) {
+    const entry = entries.get(`${FILES_DIR}${file.path}`);
+    if (!isSafePath(file.path) || !entry) {
+      throw new Error(`The bundle is missing ${file.path}`);
+    }
+    const content = entry.toString("utf8");
+    if (sha256(content) !== file.sha256) {
+      throw new Error(`${file.path} does not match its checksum in the manifest`);
+    }
+    files[file.path] = content;
+  }
+
+  return { manifest: parsed.data, files };
+}
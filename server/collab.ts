@@ -0,0 +1,324 @@
+import * as Y from "yjs";
+import { storage } from "./storage";
+import { DEFAULT_FILES, getFilesMap, readFiles } from "@shared/collab";
+
+const FLUSH_INTERVAL_MS = 5000;
+
+export interface LiveDocument {
+  sessionId: string;
+  projectId: string | null;
+  doc: Y.Doc;
+  /** Bumped on every change to a file, so clients can tell how current their copy is */
+  versions: Map<string, number>;
+  /** Paths changed (or deleted) since the last flush to the files table */
+  dirty: Set<string>;
+  /** When the files last changed after loading, as a Date.now() timestamp */
+  lastEditedAt: number | null;
+  fileIds: Map<string, string>;
+  /** Flushes run one after another so a file is never created twice */
+  flushing: Promise<void>;
+}
+
+// One authoritative Y.Doc per live session, seeded from the project's files on first join
+const documents = new Map<string, Promise<LiveDocument>>();
+// A rejoin must not read the files table before the previous instance has finished writing it
+const releasing = new Map<string, Promise<void>>();
+// How many connections and requests are using each document; the last to let go unloads it
+const holds = new Map<string, number>();
+// Asks other server processes for a session they already hold, so every copy shares one Yjs history
+let peerStateSource: ((sessionId: string) => Promise<Uint8Array | null>) | null = null;
+
+export function setPeerStateSource(source: (sessionId: string) => Promise<Uint8Array | null>): void {
+  peerStateSource = source;
+}
+
+async function loadDocument(sessionId: string): Promise<LiveDocument> {
+  const session = await storage.getSession(sessionId);
+  const projectId = session?.projectId ?? null;
+  const projectFiles = projectId ? await storage.getFilesByProjectId(projectId) : [];
+  const peerState = peerStateSource ? await peerStateSource(sessionId) : null;
+  const initialFiles = projectFiles.length > 0
+    ? Object.fromEntries(projectFiles.map((file) => [file.path, file.content]))
+    : DEFAULT_FILES;
+
+  const live: LiveDocument = {
+    sessionId,
+    projectId,
+    doc: new Y.Doc(),
+    versions: new Map(),
+    dirty: new Set(),
+    lastEditedAt: null,
+    fileIds: new Map(projectFiles.map((file) => [file.path, file.id])),
+    flushing: Promise.resolve(),
+  };
+
+  const filesMap = getFilesMap(live.doc);
+  if (peerState) {
+    // Seeding from the files table again would give the same text a second, conflicting history
+    Y.applyUpdate(live.doc, peerState);
+    filesMap.forEach((_text, path) => live.versions.set(path, 1));
+  } else {
+    live.doc.transact(() => {
+      for (const [path, content] of Object.entries(initialFiles)) {
+        filesMap.set(path, new Y.Text(content));
+      }
+    });
+
+    // Default files only exist in memory until the first flush writes them
+    for (const path of Object.keys(initialFiles)) {
+      live.versions.set(path, 1);
+      if (!live.fileIds.has(path)) live.dirty.add(path);
+    }
+  }
+
+  filesMap.observeDeep((events) => {
+    const changed = new Set<string>();
+    for (const event of events) {
+      if (event instanceof Y.YMapEvent) {
+        event.keysChanged.forEach((path) => changed.add(path));
+      } else {
+        changed.add(event.path[0] as string);
+      }
+    }
+    changed.forEach((path) => {
+      live.versions.set(path, (live.versions.get(path) ?? 0) + 1);
+      live.dirty.add(path);
+    });
+    live.lastEditedAt = Date.now();
+  });
+
+  return live;
+}
+
+export function getLiveDocument(sessionId: string): Promise<LiveDocument> {
+  let live = documents.get(sessionId);
+  if (!live) {
+    live = (releasing.get(sessionId) ?? Promise.resolve()).then(() => loadDocument(sessionId));
+    documents.set(sessionId, live);
+    live.catch(() => documents.delete(sessionId));
+  }
+  return live;
+}
+
+/** Loads the session's document if needed and keeps it loaded until a matching releaseSessionDocument */
+export async function retainSessionDocument(sessionId: string): Promise<LiveDocument> {
+  holds.set(sessionId, (holds.get(sessionId) ?? 0) + 1);
+  try {
+    return await getLiveDocument(sessionId);
+  } catch (error) {
+    dropHold(sessionId);
+    throw error;
+  }
+}
+
+// True when that was the last hold on the document
+function dropHold(sessionId: string): boolean {
+  const count = holds.get(sessionId);
+  if (!count) return false;
+  if (count > 1) {
+    holds.set(sessionId, count - 1);
+    return false;
+  }
+  holds.delete(sessionId);
+  return true;
+}
+
+export function isLive(sessionId: string): boolean {
+  return documents.has(sessionId);
+}
+
+export function getLiveSessionIds(): string[] {
+  return Array.from(documents.keys());
+}
+
+// Runs `use` on the session's document and flushes what it changed; a session nobody else holds is let go again
+async function withSessionDocument<T>(sessionId: string, use: (live: LiveDocument) => T): Promise<T> {
+  const live = await retainSessionDocument(sessionId);
+  try {
+    return use(live);
+  } finally {
+    try {
+      await flushSessionDocument(sessionId);
+    } finally {
+      await releaseSessionDocument(sessionId);
+    }
+  }
+}
+
+/** The session's current files, including edits not yet flushed to the files table */
+export function readSessionFiles(sessionId: string): Promise<Record<string, string>> {
+  return withSessionDocument(sessionId, (live) => readFiles(live.doc));
+}
+
+/**
+ * Makes the session's files exactly `files` and returns the Yjs update that
+ * did it, for the caller to broadcast. Deleted and new files reach the
+ * files table with the flush that follows.
+ */
+export function replaceSessionFiles(sessionId: string, files: Record<string, string>): Promise<Uint8Array> {
+  return withSessionDocument(sessionId, (live) => {
+    const before = Y.encodeStateVector(live.doc);
+    const filesMap = getFilesMap(live.doc);
+
+    live.doc.transact(() => {
+      Array.from(filesMap.keys())
+        .filter((path) => !(path in files))
+        .forEach((path) => filesMap.delete(path));
+
+      for (const [path, content] of Object.entries(files)) {
+        const text = filesMap.get(path);
+        if (!text) {
+          filesMap.set(path, new Y.Text(content));
+        } else if (text.toString() !== content) {
+          text.delete(0, text.length);
+          text.insert(0, content);
+        }
+      }
+    });
+
+    return Y.encodeStateAsUpdate(live.doc, before);
+  });
+}
+
+/**
+ * Sets one of the session's files to `content`, creating it if needed, or
+ * deletes it when `content` is null. Returns the Yjs update for the caller to
+ * broadcast; the files table catches up with the flush that follows.
+ */
+export function writeSessionFile(sessionId: string, path: string, content: string | null): Promise<Uint8Array> {
+  return withSessionDocument(sessionId, (live) => {
+    const before = Y.encodeStateVector(live.doc);
+    const filesMap = getFilesMap(live.doc);
+    const text = filesMap.get(path);
+
+    live.doc.transact(() => {
+      if (content === null) {
+        if (text) filesMap.delete(path);
+      } else if (!text) {
+        filesMap.set(path, new Y.Text(content));
+      } else if (text.toString() !== content) {
+        text.delete(0, text.length);
+        text.insert(0, content);
+      }
+    });
+
+    return Y.encodeStateAsUpdate(live.doc, before);
+  });
+}
+
+/** Replaces `length` characters at `offset` in one file */
+export interface TextEdit {
+  path: string;
+  offset: number;
+  length: number;
+  text: string;
+}
+
+/**
+ * Applies the edits `plan` returns for the session's current files in one
+ * transaction, and returns the Yjs update for the caller to broadcast along
+ * with the plan's result. `plan` runs against the files as they are at that
+ * moment, so no other edit can land in between. Edits to one file must not
+ * overlap.
+ */
+export function editSessionFiles<T>(
+  sessionId: string,
+  plan: (files: Record<string, string>) => { edits: TextEdit[]; result: T },
+): Promise<{ update: Uint8Array; result: T }> {
+  return withSessionDocument(sessionId, (live) => {
+    const { edits, result } = plan(readFiles(live.doc));
+    const before = Y.encodeStateVector(live.doc);
+    const filesMap = getFilesMap(live.doc);
+
+    // Later edits first, so earlier offsets still hold
+    live.doc.transact(() => {
+      for (const edit of [...edits].sort((a, b) => b.offset - a.offset)) {
+        const text = filesMap.get(edit.path);
+        if (!text) continue;
+        text.delete(edit.offset, edit.length);
+        text.insert(edit.offset, edit.text);
+      }
+    });
+
+    return { update: Y.encodeStateAsUpdate(live.doc, before), result };
+  });
+}
+
+async function writeDirtyFiles(live: LiveDocument): Promise<void> {
+  if (!live.projectId || live.dirty.size === 0) return;
+
+  const paths = Array.from(live.dirty);
+  live.dirty.clear();
+  const files = readFiles(live.doc);
+
+  try {
+    // Another server process holding this session may have created the row since we loaded
+    if (paths.some((path) => !live.fileIds.has(path))) {
+      for (const file of await storage.getFilesByProjectId(live.projectId)) {
+        if (!live.fileIds.has(file.path)) live.fileIds.set(file.path, file.id);
+      }
+    }
+
+    for (const path of paths) {
+      const fileId = live.fileIds.get(path);
+      const content = files[path];
+
+      if (content === undefined) {
+        if (fileId) {
+          await storage.deleteFile(fileId);
+          live.fileIds.delete(path);
+        }
+      } else if (fileId) {
+        await storage.updateFileContent(fileId, content);
+      } else {
+        const file = await storage.createFile({ projectId: live.projectId, path, content });
+        live.fileIds.set(path, file.id);
+      }
+    }
+  } catch (error) {
+    // Retry the whole batch on the next tick rather than lose edits
+    paths.forEach((path) => live.dirty.add(path));
+    throw error;
+  }
+}
+
+function flush(live: LiveDocument): Promise<void> {
+  const run = live.flushing.then(() => writeDirtyFiles(live));
+  live.flushing = run.catch(() => undefined);
+  return run;
+}
+
+export async function flushSessionDocument(sessionId: string): Promise<void> {
+  const live = documents.get(sessionId);
+  if (live) {
+    await flush(await live);
+  }
+}
+
+/** Lets go of a hold from retainSessionDocument; the last one flushes and unloads the document */
+export async function releaseSessionDocument(sessionId: string): Promise<void> {
+  if (!dropHold(sessionId)) return;
+  const pending = documents.get(sessionId);
+  if (!pending) return;
+
+  documents.delete(sessionId);
+  const release = pending
+    .then(async (live) => {
+      try {
+        await flush(live);
+      } finally {
+        live.doc.destroy();
+      }
+    })
+    .finally(() => releasing.delete(sessionId));
+  releasing.set(sessionId, release.catch(() => undefined));
+  await release;
+}
+
+setInterval(() => {
+  documents.forEach((pending, sessionId) => {
+    pending
+      .then(flush)
+      .catch((error) => console.error(`Error flushing live session ${sessionId}:`, error));
+  });
+}, FLUSH_INTERVAL_MS).unref();
@@ -0,0 +1,38 @@
+import { storage } from "./storage";
+import { diffFiles } from "./diff";
+import { getCommentAnchor, remapCommentRange, type CommentAnchorState } from "@shared/comments";
+import type { InlineComment, Snapshot } from "@shared/schema";
+
+/**
+ * Carries the session's comment threads onto `snapshot`, just taken on top of
+ * the head, so their ranges keep pointing at the code they discuss. Threads
+ * whose code was deleted or rewritten stay on the snapshot where they last
+ * matched and are flagged outdated; they are not carried any further.
+ */
+export async function carryCommentsForward(snapshot: Snapshot, files: Record<string, string>): Promise<void> {
+  const bySource = new Map<string, { comment: InlineComment; anchor: CommentAnchorState }[]>();
+  for (const comment of await storage.getCommentsBySessionId(snapshot.sessionId)) {
+    const anchor = getCommentAnchor(comment);
+    if (comment.parentId || anchor.outdated || anchor.snapshotId === snapshot.id) continue;
+    bySource.set(anchor.snapshotId, [...(bySource.get(anchor.snapshotId) ?? []), { comment, anchor }]);
+  }
+
+  for (const [sourceId, threads] of Array.from(bySource)) {
+    const source = await storage.getSnapshot(sourceId);
+    if (!source) continue;
+
+    const before = await storage.getSnapshotFiles(source);
+    const renames = new Map(diffFiles(before, files).flatMap((change) => (change.previousPath ? [[change.previousPath, change.path]] : [])));
+
+    for (const { comment, anchor } of threads) {
+      const filePath = renames.get(anchor.filePath) ?? anchor.filePath;
+      const remapped = before[anchor.filePath] === undefined || files[filePath] === undefined
+        ? { range: anchor.range, outdated: true }
+        : remapCommentRange(anchor.range, before[anchor.filePath], files[filePath]);
+
+      await storage.updateCommentAnchor(comment.id, remapped.outdated
+        ? { ...anchor, outdated: true }
+        : { snapshotId: snapshot.id, filePath, range: remapped.range, outdated: false });
+    }
+  }
+}
@@ -13,3 +13,24 @@ if (!process.env.DATABASE_URL) {
 
 export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
 export const db = drizzle({ client: pool, schema });
+
+/**
+ * Runs `run` while holding the advisory lock `name`, so a periodic job that
+ * every server process runs does its work on only one of them at a time.
+ * Resolves null without running it when another process holds the lock.
+ */
+export async function withAdvisoryLock<T>(name: string, run: () => Promise<T>): Promise<T | null> {
+  // Advisory locks belong to a connection, so the lock and unlock must share one client
+  const client = await pool.connect();
+  try {
+    const { rows } = await client.query("SELECT pg_try_advisory_lock(hashtext($1)) AS locked", [name]);
+    if (!rows[0].locked) return null;
+    try {
+      return await run();
+    } finally {
+      await client.query("SELECT pg_advisory_unlock(hashtext($1))", [name]);
+    }
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,105 @@
+import { diffLines } from "diff";
+import type { FileChange, LineStats, SnapshotMetadata } from "@shared/snapshots";
+
+// A deleted and a created file at least this alike are treated as one file that moved
+const RENAME_SIMILARITY = 0.5;
+
+export function diffLineStats(before: string, after: string): LineStats {
+  const stats: LineStats = { added: 0, removed: 0, modified: 0 };
+  let pendingRemoved = 0;
+
+  for (const part of diffLines(before, after)) {
+    const count = part.count ?? 0;
+    if (part.removed) {
+      pendingRemoved += count;
+    } else if (part.added) {
+      // Lines added right where lines were removed are edits of those lines
+      const paired = Math.min(pendingRemoved, count);
+      stats.modified += paired;
+      stats.added += count - paired;
+      stats.removed += pendingRemoved - paired;
+      pendingRemoved = 0;
+    } else {
+      stats.removed += pendingRemoved;
+      pendingRemoved = 0;
+    }
+  }
+  stats.removed += pendingRemoved;
+
+  return stats;
+}
+
+function countLines(content: string): number {
+  if (content === "") return 0;
+  const lines = content.split("\n").length;
+  return content.endsWith("\n") ? lines - 1 : lines;
+}
+
+// Share of lines left untouched, relative to the larger of the two files
+function similarity(before: string, after: string): number {
+  const total = Math.max(countLines(before), countLines(after));
+  if (total === 0) return 1;
+
+  const { removed, modified } = diffLineStats(before, after);
+  return Math.max(0, countLines(before) - removed - modified) / total;
+}
+
+export function diffFiles(before: Record<string, string>, after: Record<string, string>): FileChange[] {
+  const changes: FileChange[] = [];
+  const created = Object.keys(after).filter((path) => !(path in before));
+  const deleted = Object.keys(before).filter((path) => !(path in after));
+
+  for (const [path, content] of Object.entries(after)) {
+    if (path in before && before[path] !== content) {
+      changes.push({ path, status: "modified", ...diffLineStats(before[path], content) });
+    }
+  }
+
+  // Pair each deleted file with the most similar created one, best matches first
+  const candidates = deleted
+    .flatMap((from) => created.map((to) => ({ from, to, score: similarity(before[from], after[to]) })))
+    .filter((candidate) => candidate.score >= RENAME_SIMILARITY)
+    .sort((a, b) => b.score - a.score);
+  const renamedFrom = new Set<string>();
+  const renamedTo = new Set<string>();
+
+  for (const { from, to } of candidates) {
+    if (renamedFrom.has(from) || renamedTo.has(to)) continue;
+    renamedFrom.add(from);
+    renamedTo.add(to);
+    changes.push({ path: to, previousPath: from, status: "renamed", ...diffLineStats(before[from], after[to]) });
+  }
+
+  for (const path of created) {
+    if (!renamedTo.has(path)) {
+      changes.push({ path, status: "created", added: countLines(after[path]), removed: 0, modified: 0 });
+    }
+  }
+  for (const path of deleted) {
+    if (!renamedFrom.has(path)) {
+      changes.push({ path, status: "deleted", added: 0, removed: countLines(before[path]), modified: 0 });
+    }
+  }
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+export function summarizeChanges(changes: FileChange[]): SnapshotMetadata {
+  const linesAdded = changes.reduce((sum, change) => sum + change.added, 0);
+  const linesRemoved = changes.reduce((sum, change) => sum + change.removed, 0);
+  const linesModified = changes.reduce((sum, change) => sum + change.modified, 0);
+
+  return {
+    linesChanged: linesAdded + linesRemoved + linesModified,
+    linesAdded,
+    linesRemoved,
+    linesModified,
+    filesModified: changes.map((change) => change.path),
+    filesCreated: changes.filter((change) => change.status === "created").map((change) => change.path),
+    filesDeleted: changes.filter((change) => change.status === "deleted").map((change) => change.path),
+    filesRenamed: changes
+      .filter((change) => change.status === "renamed")
+      .map((change) => ({ from: change.previousPath!, to: change.path })),
+    changes,
+  };
+}
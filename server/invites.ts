@@ -0,0 +1,25 @@
+import { randomBytes, randomInt } from "crypto";
+import type { SessionInvite } from "@shared/schema";
+
+// No 0/O or 1/I, so a code read out loud or off a screen survives being retyped
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 6;
+
+export function generateInviteToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+export function generateJoinCode(): string {
+  let code = "";
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+// Why an invite can no longer be used, or null if it still can
+export function getInviteProblem(invite: SessionInvite): string | null {
+  if (invite.revokedAt) return "This invite has been revoked";
+  if (invite.expiresAt.getTime() <= Date.now()) return "This invite has expired";
+  return null;
+}
@@ -0,0 +1,211 @@
+import { diffArrays } from "diff";
+import { joinLines, splitLines, type FileMerge, type MergeChunk } from "@shared/merge";
+import type { Snapshot } from "@shared/schema";
+
+interface Hunk {
+  /** The base lines [baseStart, baseEnd) that this side replaced */
+  baseStart: number;
+  baseEnd: number;
+  lines: string[];
+}
+
+function getHunks(base: string[], side: string[]): Hunk[] {
+  const hunks: Hunk[] = [];
+  let position = 0;
+  let current: Hunk | null = null;
+
+  for (const part of diffArrays(base, side)) {
+    if (!part.added && !part.removed) {
+      current = null;
+      position += part.count;
+      continue;
+    }
+    if (!current) {
+      current = { baseStart: position, baseEnd: position, lines: [] };
+      hunks.push(current);
+    }
+    if (part.removed) {
+      position += part.count;
+      current.baseEnd = position;
+    } else {
+      current.lines.push(...part.value);
+    }
+  }
+
+  return hunks;
+}
+
+// One side's text for base lines [start, end), given that side's hunks inside the range
+function applyHunks(base: string[], start: number, end: number, hunks: Hunk[]): string[] {
+  const lines: string[] = [];
+  let position = start;
+  for (const hunk of hunks) {
+    lines.push(...base.slice(position, hunk.baseStart), ...hunk.lines);
+    position = hunk.baseEnd;
+  }
+  lines.push(...base.slice(position, end));
+  return lines;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * A line-based three-way merge. Changes from each side that touch separate
+ * parts of the base are combined; changes that overlap or touch the same spot
+ * become conflicts, unless both sides made the same change.
+ */
+export function mergeText(base: string, ours: string, theirs: string): MergeChunk[] {
+  const baseLines = splitLines(base);
+  const oursHunks = getHunks(baseLines, splitLines(ours));
+  const theirsHunks = getHunks(baseLines, splitLines(theirs));
+
+  const chunks: MergeChunk[] = [];
+  const pushResolved = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = chunks[chunks.length - 1];
+    if (last?.type === "resolved") {
+      last.lines.push(...lines);
+    } else {
+      chunks.push({ type: "resolved", lines: [...lines] });
+    }
+  };
+
+  let position = 0;
+  let nextConflictId = 0;
+  let i = 0;
+  let j = 0;
+
+  while (i < oursHunks.length || j < theirsHunks.length) {
+    // Start a group at whichever side's next change comes first, then pull in everything it touches
+    const startsWithOurs = j >= theirsHunks.length || (i < oursHunks.length && oursHunks[i].baseStart <= theirsHunks[j].baseStart);
+    const first = startsWithOurs ? oursHunks[i] : theirsHunks[j];
+    const groupStart = first.baseStart;
+    let groupEnd = first.baseEnd;
+    const oursGroup: Hunk[] = [];
+    const theirsGroup: Hunk[] = [];
+
+    let grew = true;
+    while (grew) {
+      grew = false;
+      if (i < oursHunks.length && oursHunks[i].baseStart <= groupEnd) {
+        groupEnd = Math.max(groupEnd, oursHunks[i].baseEnd);
+        oursGroup.push(oursHunks[i++]);
+        grew = true;
+      }
+      if (j < theirsHunks.length && theirsHunks[j].baseStart <= groupEnd) {
+        groupEnd = Math.max(groupEnd, theirsHunks[j].baseEnd);
+        theirsGroup.push(theirsHunks[j++]);
+        grew = true;
+      }
+    }
+
+    pushResolved(baseLines.slice(position, groupStart));
+    const oursLines = applyHunks(baseLines, groupStart, groupEnd, oursGroup);
+    const theirsLines = applyHunks(baseLines, groupStart, groupEnd, theirsGroup);
+
+    if (theirsGroup.length === 0 || sameLines(oursLines, theirsLines)) {
+      pushResolved(oursLines);
+    } else if (oursGroup.length === 0) {
+      pushResolved(theirsLines);
+    } else {
+      chunks.push({
+        type: "conflict",
+        id: nextConflictId++,
+        base: baseLines.slice(groupStart, groupEnd),
+        ours: oursLines,
+        theirs: theirsLines,
+      });
+    }
+    position = groupEnd;
+  }
+
+  pushResolved(baseLines.slice(position));
+  return chunks;
+}
+
+/**
+ * Merges two file sets against their common ancestor's. Only files whose
+ * result differs from ours are returned.
+ */
+export function mergeFiles(
+  base: Record<string, string>,
+  ours: Record<string, string>,
+  theirs: Record<string, string>,
+): FileMerge[] {
+  const paths = Array.from(new Set([...Object.keys(base), ...Object.keys(ours), ...Object.keys(theirs)])).sort();
+  const merges: FileMerge[] = [];
+
+  for (const path of paths) {
+    const [b, o, t] = [base[path], ours[path], theirs[path]];
+    if (o === t || t === b) continue;
+
+    if (o === undefined || t === undefined) {
+      if (o === b || (o === undefined && b === undefined)) {
+        // Only theirs touched the file: take their edit or their deletion
+        merges.push(t === undefined
+          ? { path, status: "deleted", chunks: [] }
+          : { path, status: "merged", chunks: [{ type: "resolved", lines: splitLines(t) }] });
+      } else {
+        merges.push({
+          path,
+          status: "conflicted",
+          deletedIn: o === undefined ? "ours" : "theirs",
+          chunks: [{
+            type: "conflict",
+            id: 0,
+            base: b === undefined ? [] : splitLines(b),
+            ours: o === undefined ? [] : splitLines(o),
+            theirs: t === undefined ? [] : splitLines(t),
+          }],
+        });
+      }
+      continue;
+    }
+
+    if (o === b) {
+      merges.push({ path, status: "merged", chunks: [{ type: "resolved", lines: splitLines(t) }] });
+      continue;
+    }
+
+    // Both changed the file; files both sides added are merged against an empty base
+    const chunks = mergeText(b ?? "", o, t);
+    const conflicted = chunks.some((chunk) => chunk.type === "conflict");
+    if (conflicted || joinLines(chunks.flatMap((chunk) => chunk.type === "resolved" ? chunk.lines : [])) !== o) {
+      merges.push({ path, status: conflicted ? "conflicted" : "merged", chunks });
+    }
+  }
+
+  return merges;
+}
+
+function getParentIds(snapshot: Snapshot): string[] {
+  return [snapshot.baseSnapshotId, snapshot.mergeParentId].filter((id): id is string => Boolean(id));
+}
+
+/** The closest snapshot both `oursId` and `theirsId` descend from (either may be it) */
+export function findMergeBase(history: Snapshot[], oursId: string, theirsId: string): Snapshot | null {
+  const byId = new Map(history.map((snapshot) => [snapshot.id, snapshot]));
+
+  const oursAncestry = new Set<string>();
+  const pending = [oursId];
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (oursAncestry.has(id) || !byId.has(id)) continue;
+    oursAncestry.add(id);
+    pending.push(...getParentIds(byId.get(id)!));
+  }
+
+  // Breadth-first from theirs, so the first shared snapshot is the nearest one
+  const queue = [theirsId];
+  const seen = new Set<string>();
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (seen.has(id) || !byId.has(id)) continue;
+    if (oursAncestry.has(id)) return byId.get(id)!;
+    seen.add(id);
+    queue.push(...getParentIds(byId.get(id)!));
+  }
+  return null;
+}
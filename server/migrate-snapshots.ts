@@ -0,0 +1,58 @@
+import { db } from "./db";
+import { storage } from "./storage";
+import { diffFiles, summarizeChanges } from "./diff";
+import { snapshots } from "@shared/schema";
+import { readSnapshotFiles } from "@shared/snapshots";
+import { eq, isNotNull } from "drizzle-orm";
+
+/**
+ * Moves snapshots saved with inline file contents into blob storage: each
+ * file content is written once to snapshot_blobs, the snapshot keeps a
+ * path → hash tree and is linked to the snapshot before it in its session.
+ * Safe to run repeatedly; already migrated rows are left alone.
+ */
+async function migrateSnapshots() {
+  console.log("Migrating snapshots to blob storage...");
+
+  const legacySessions = await db
+    .selectDistinct({ sessionId: snapshots.sessionId })
+    .from(snapshots)
+    .where(isNotNull(snapshots.diff));
+
+  let migrated = 0;
+  for (const { sessionId } of legacySessions) {
+    const history = await storage.getSnapshotsBySessionId(sessionId);
+    let previous: { id: string; files: Record<string, string> } | null = null;
+
+    for (const snapshot of history) {
+      const files = snapshot.diff ? readSnapshotFiles(snapshot.diff) : await storage.getSnapshotFiles(snapshot);
+
+      if (snapshot.diff) {
+        const tree = await storage.saveSnapshotBlobs(files);
+        await db
+          .update(snapshots)
+          .set({
+            tree,
+            // Recomputed rather than copied: older rows only carried a rough line count
+            metadata: summarizeChanges(diffFiles(previous?.files ?? {}, files)),
+            baseSnapshotId: snapshot.baseSnapshotId ?? previous?.id ?? null,
+            diff: null,
+          })
+          .where(eq(snapshots.id, snapshot.id));
+        migrated++;
+      }
+
+      previous = { id: snapshot.id, files };
+    }
+  }
+
+  console.log(`Migrated ${migrated} snapshots in ${legacySessions.length} sessions`);
+}
+
+migrateSnapshots().then(
+  () => process.exit(0),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  },
+);
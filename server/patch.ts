@@ -0,0 +1,53 @@
+import { structuredPatch } from "diff";
+import { diffFiles } from "./diff";
+
+const CONTEXT_LINES = 3;
+
+function formatHunks(before: string, after: string): string[] {
+  const { hunks } = structuredPatch("", "", before, after, "", "", { context: CONTEXT_LINES });
+  return hunks.flatMap((hunk) => [
+    // An empty side is written as starting before line 1, like git does
+    `@@ -${hunk.oldLines === 0 ? hunk.oldStart - 1 : hunk.oldStart},${hunk.oldLines} +${hunk.newLines === 0 ? hunk.newStart - 1 : hunk.newStart},${hunk.newLines} @@`,
+    ...hunk.lines,
+  ]);
+}
+
+/**
+ * A unified diff from one file set to another in git's extended format, so
+ * `git apply` can replay it: creations and deletions carry file modes and
+ * renames are written as renames.
+ */
+export function formatGitPatch(before: Record<string, string>, after: Record<string, string>): string {
+  const lines: string[] = [];
+
+  for (const change of diffFiles(before, after)) {
+    const oldPath = change.previousPath ?? change.path;
+    const oldContent = change.status === "created" ? "" : before[oldPath];
+    const newContent = change.status === "deleted" ? "" : after[change.path];
+    const hunks = formatHunks(oldContent, newContent);
+
+    lines.push(`diff --git a/${oldPath} b/${change.path}`);
+    switch (change.status) {
+      case "created":
+        lines.push("new file mode 100644");
+        if (hunks.length > 0) lines.push("--- /dev/null", `+++ b/${change.path}`);
+        break;
+      case "deleted":
+        lines.push("deleted file mode 100644");
+        if (hunks.length > 0) lines.push(`--- a/${oldPath}`, "+++ /dev/null");
+        break;
+      case "renamed": {
+        const oldLines = oldContent.split("\n").length - (oldContent.endsWith("\n") ? 1 : 0);
+        const unchanged = Math.max(0, 1 - (change.removed + change.modified) / Math.max(1, oldLines));
+        lines.push(`similarity index ${Math.round(unchanged * 100)}%`, `rename from ${oldPath}`, `rename to ${change.path}`);
+        if (hunks.length > 0) lines.push(`--- a/${oldPath}`, `+++ b/${change.path}`);
+        break;
+      }
+      default:
+        lines.push(`--- a/${oldPath}`, `+++ b/${change.path}`);
+    }
+    lines.push(...hunks);
+  }
+
+  return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+}
@@ -0,0 +1,85 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { storage } from "./storage";
+import {
+  can,
+  isParticipantRole,
+  roleRank,
+  type ParticipantRole,
+  type SessionPermission,
+} from "@shared/permissions";
+
+type IdResolver = (req: Request) => string | undefined | Promise<string | undefined>;
+
+export async function getSessionRole(sessionId: string, userId: string): Promise<ParticipantRole | null> {
+  const session = await storage.getSession(sessionId);
+  if (!session) return null;
+  if (session.hostId === userId) return "host";
+
+  const participant = await storage.getParticipant(sessionId, userId);
+  return participant && isParticipantRole(participant.role) ? participant.role : null;
+}
+
+// A project is reachable through any session that works on it; the owner always acts as host
+export async function getProjectRole(projectId: string, userId: string): Promise<ParticipantRole | null> {
+  const project = await storage.getProject(projectId);
+  if (!project) return null;
+  if (project.ownerId === userId) return "host";
+
+  let best: ParticipantRole | null = null;
+  for (const session of await storage.getSessionsByProjectId(projectId)) {
+    const role = await getSessionRole(session.id, userId);
+    if (role && (!best || roleRank(role) > roleRank(best))) {
+      best = role;
+    }
+  }
+  return best;
+}
+
+function authorize(
+  permission: SessionPermission,
+  resolveId: IdResolver,
+  resolveRole: (id: string, userId: string) => Promise<ParticipantRole | null>,
+): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = await resolveId(req);
+      if (!id) {
+        return res.status(404).json({ error: "Not found" });
+      }
+
+      const role = await resolveRole(id, req.user!.id);
+      if (!role) {
+        return res.status(403).json({ error: "You are not a member of this session" });
+      }
+      if (!can(role, permission)) {
+        return res.status(403).json({ error: `Your role (${role}) does not allow this action` });
+      }
+      next();
+    } catch (error) {
+      console.error("Error checking permissions:", error);
+      res.status(500).json({ error: "Failed to check permissions" });
+    }
+  };
+}
+
+export function authorizeSession(
+  permission: SessionPermission,
+  resolveSessionId: IdResolver = (req) => req.params.id,
+): RequestHandler {
+  return authorize(permission, resolveSessionId, getSessionRole);
+}
+
+export function authorizeProject(
+  permission: SessionPermission,
+  resolveProjectId: IdResolver = (req) => req.params.id,
+): RequestHandler {
+  return authorize(permission, resolveProjectId, getProjectRole);
+}
+
+export const fileProjectId: IdResolver = async (req) => (await storage.getFile(req.params.id))?.projectId;
+
+export const commentSessionId: IdResolver = async (req) => (await storage.getComment(req.params.id))?.sessionId;
+
+export const snapshotSessionId: IdResolver = async (req) => (await storage.getSnapshot(req.params.id))?.sessionId;
+
+export const inviteSessionId: IdResolver = async (req) => (await storage.getInvite(req.params.id))?.sessionId;
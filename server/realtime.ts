@@ -0,0 +1,537 @@
+import { ServerResponse, type IncomingMessage, type Server } from "http";
+import type { Request, RequestHandler, Response } from "express";
+import { randomUUID } from "crypto";
+import { WebSocketServer, WebSocket } from "ws";
+import * as Y from "yjs";
+import { storage } from "./storage";
+import { getSessionUserId } from "./auth";
+import { getSessionRole } from "./permissions";
+import { getLiveDocument, isLive, releaseSessionDocument, retainSessionDocument, setPeerStateSource } from "./collab";
+import { createBackplane, type Backplane } from "./backplane";
+import { encodeUpdate, decodeUpdate, readFiles } from "@shared/collab";
+import { can, type ParticipantRole, type SessionPermission } from "@shared/permissions";
+import {
+  parseClientMessage,
+  type BroadcastMessage,
+  type ClientMessage,
+  type PresenceEntry,
+  type ServerMessage,
+  type WsErrorCode,
+} from "@shared/protocol";
+
+const HEARTBEAT_INTERVAL_MS = 30000;
+// How many broadcasts a reconnecting client can catch up on before it needs a full resync
+const SESSION_LOG_SIZE = 1000;
+// How long a process loading a session waits for another process to hand over its copy
+const PEER_SYNC_TIMEOUT_MS = 750;
+// How long a session's log and document outlive its last connection, so those who dropped can still resume
+const RESUME_GRACE_MS = 60000;
+const BACKPLANE_ORIGIN = "backplane";
+
+interface ConnectionInfo extends PresenceEntry {
+  // Stable across reconnects of one tab, unlike connectionId
+  clientId: string;
+}
+
+/**
+ * Every broadcast in a session gets the next sequence number and is kept here,
+ * so a client that reconnects with `{ epoch, seq }` only needs what it missed.
+ * The epoch changes whenever the log is recreated (e.g. server restart).
+ */
+interface SessionLog {
+  epoch: string;
+  seq: number;
+  entries: Array<{ seq: number; originClientId?: string; payload: string }>;
+}
+
+// What server processes tell each other over the backplane; `nodeId` names the sender
+type BackplaneEnvelope =
+  | {
+      kind: 'broadcast';
+      nodeId: string;
+      sessionId: string;
+      originClientId?: string;
+      originConnectionId?: string;
+      message: BroadcastMessage;
+    }
+  | { kind: 'sync-request'; nodeId: string; sessionId: string; requestId: string }
+  | { kind: 'sync-response'; nodeId: string; sessionId: string; requestId: string; update: string; presence: ConnectionInfo[] };
+
+export function setupRealtime(
+  httpServer: Server,
+  sessionParser: RequestHandler,
+  backplane: Backplane = createBackplane(),
+) {
+  const nodeId = randomUUID();
+
+  // Reuse the express session cookie so the socket acts as the logged-in user
+  const wss = new WebSocketServer({
+    server: httpServer,
+    path: '/ws',
+    verifyClient: (info, done) => {
+      // The upgrade has no response yet; express-session only needs one to hook, never writes to it
+      sessionParser(info.req as Request, new ServerResponse(info.req) as Response, () => {
+        done(Boolean(getSessionUserId(info.req)), 401, "Unauthorized");
+      });
+    },
+  });
+
+  const activeConnections = new Map<string, Set<WebSocket>>();
+  const connectionInfo = new Map<WebSocket, ConnectionInfo>();
+  const sessionLogs = new Map<string, SessionLog>();
+  // Sessions nobody is connected to, and when their log is thrown away
+  const logExpiry = new Map<string, NodeJS.Timeout>();
+  const aliveSockets = new WeakSet<WebSocket>();
+  // Connections held by other server processes, keyed by connectionId
+  const remotePresence = new Map<string, Map<string, PresenceEntry>>();
+  const peerRequests = new Map<string, (envelope: Extract<BackplaneEnvelope, { kind: 'sync-response' }>) => void>();
+
+  backplane.subscribe((payload) => handleEnvelope(payload as BackplaneEnvelope));
+  setPeerStateSource((sessionId) => backplane.hasPeers() ? requestPeerState(sessionId) : Promise.resolve(null));
+
+  // Sockets that miss a whole heartbeat interval are dropped, which also clears their presence
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((client) => {
+      if (!aliveSockets.has(client)) {
+        client.terminate();
+        return;
+      }
+      aliveSockets.delete(client);
+      client.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  wss.on('close', () => clearInterval(heartbeat));
+
+  wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
+    const userId = getSessionUserId(req)!;
+    let currentSessionId: string | null = null;
+    // The session whose document this connection keeps loaded
+    let heldSessionId: string | null = null;
+    // Handle frames one at a time so a slow join can't be overtaken by the edits behind it
+    let pending = Promise.resolve();
+
+    aliveSockets.add(ws);
+    ws.on('pong', () => aliveSockets.add(ws));
+
+    const send = (message: ServerMessage) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(message));
+      }
+    };
+
+    const sendError = (code: WsErrorCode, message: string, requestType?: string) => {
+      send({ type: 'error', code, message, requestType });
+    };
+
+    const hasPermission = (permission: SessionPermission) => {
+      return can(connectionInfo.get(ws)?.role, permission);
+    };
+
+    const leaveCurrentSession = () => {
+      if (!currentSessionId) return;
+
+      const sessionId = currentSessionId;
+      const info = connectionInfo.get(ws);
+      const connections = activeConnections.get(sessionId);
+      if (connections) {
+        connections.delete(ws);
+        if (connections.size === 0) {
+          activeConnections.delete(sessionId);
+          logExpiry.set(sessionId, setTimeout(() => {
+            logExpiry.delete(sessionId);
+            sessionLogs.delete(sessionId);
+          }, RESUME_GRACE_MS).unref());
+        }
+      }
+      if (heldSessionId) {
+        const heldId = heldSessionId;
+        heldSessionId = null;
+        setTimeout(() => {
+          releaseSessionDocument(heldId)
+            .catch((error) => console.error('Error releasing live session:', error));
+        }, RESUME_GRACE_MS).unref();
+      }
+
+      // Other tabs (here or on another server) keep the user in the session; they only lose this connection
+      const stillConnected = getPresence(sessionId).some((peer) => peer.userId === userId);
+      if (info) {
+        broadcast(sessionId, toPresenceUpdate(info, false), ws);
+      }
+      if (!stillConnected) {
+        broadcast(sessionId, {
+          type: 'participant-left',
+          userId,
+          timestamp: Date.now(),
+        }, ws);
+      }
+      connectionInfo.delete(ws);
+
+      Promise.all([
+        stillConnected ? undefined : storage.removeParticipant(sessionId, userId),
+        storage.updateUserLastSeen(userId),
+      ]).catch((error) => console.error('Error recording participant leave:', error));
+    };
+
+    const handleMessage = async (message: ClientMessage) => {
+      // Everything except joining and keep-alives needs a session to act on
+      if (!currentSessionId && message.type !== 'join-session' && message.type !== 'ping') {
+        if (message.type !== 'leave-session') {
+          sendError('not-joined', 'Join a session first', message.type);
+        }
+        return;
+      }
+
+      try {
+        switch (message.type) {
+          case 'join-session': {
+            const role = await getSessionRole(message.sessionId, userId);
+            if (!role) {
+              sendError('forbidden', 'You are not a member of this session', message.type);
+              break;
+            }
+
+            leaveCurrentSession();
+            const sessionId = message.sessionId;
+            currentSessionId = sessionId;
+            const info: ConnectionInfo = {
+              connectionId: randomUUID(),
+              clientId: message.clientId,
+              userId,
+              role,
+              status: 'active',
+              filePath: null,
+              cursor: null,
+            };
+            connectionInfo.set(ws, info);
+
+            if (!activeConnections.has(sessionId)) {
+              activeConnections.set(sessionId, new Set());
+            }
+            activeConnections.get(sessionId)!.add(ws);
+
+            clearTimeout(logExpiry.get(sessionId));
+            logExpiry.delete(sessionId);
+            if (!sessionLogs.has(sessionId)) {
+              sessionLogs.set(sessionId, { epoch: randomUUID(), seq: 0, entries: [] });
+            }
+            const log = sessionLogs.get(sessionId)!;
+
+            broadcast(sessionId, {
+              type: 'participant-joined',
+              userId,
+              role,
+              timestamp: Date.now(),
+            }, ws);
+            broadcast(sessionId, toPresenceUpdate(info, true), ws);
+
+            // Replay before any await so live broadcasts can't overtake the missed ones
+            const missed = getMissedEntries(log, message.resume, message.clientId);
+            missed?.forEach((entry) => ws.send(entry.payload));
+            const live = await retainSessionDocument(sessionId);
+            heldSessionId = sessionId;
+
+            if (missed) {
+              // The client answers with whatever edits of its own we never received
+              send({
+                type: 'session-resumed',
+                epoch: log.epoch,
+                seq: log.seq,
+                stateVector: encodeUpdate(Y.encodeStateVector(live.doc)),
+                presence: getPresence(sessionId, ws),
+              });
+            } else {
+              // The joiner builds its document from this, never from possibly stale DB rows
+              send({
+                type: 'session-state',
+                epoch: log.epoch,
+                seq: log.seq,
+                update: encodeUpdate(Y.encodeStateAsUpdate(live.doc)),
+                files: readFiles(live.doc),
+                versions: Object.fromEntries(live.versions),
+                presence: getPresence(sessionId, ws),
+              });
+            }
+
+            await Promise.all([
+              storage.markParticipantJoined(sessionId, userId, role),
+              storage.updateUserLastSeen(userId),
+            ]);
+            break;
+          }
+
+          case 'doc-update': {
+            if (!hasPermission('edit')) {
+              sendError('forbidden', 'Observers cannot edit the code', message.type);
+              break;
+            }
+
+            // Yjs merges concurrent updates deterministically, so every replica converges
+            const sessionId = currentSessionId!;
+            const live = await getLiveDocument(sessionId);
+            Y.applyUpdate(live.doc, decodeUpdate(message.update), ws);
+            broadcast(sessionId, {
+              type: 'doc-update',
+              userId,
+              update: message.update,
+              timestamp: Date.now(),
+            }, ws);
+            break;
+          }
+
+          case 'cursor-move': {
+            const info = connectionInfo.get(ws);
+            if (info) {
+              info.cursor = { filePath: message.filePath, anchor: message.anchor, head: message.head };
+            }
+
+            broadcast(currentSessionId!, {
+              type: 'cursor-move',
+              userId,
+              filePath: message.filePath,
+              anchor: message.anchor,
+              head: message.head,
+              timestamp: Date.now(),
+            }, ws);
+            break;
+          }
+
+          case 'presence': {
+            const info = connectionInfo.get(ws)!;
+            info.status = message.status;
+            info.filePath = message.filePath;
+
+            broadcast(currentSessionId!, toPresenceUpdate(info, true), ws);
+            await storage.updateUserLastSeen(userId);
+            break;
+          }
+
+          case 'ping':
+            send({ type: 'pong', timestamp: Date.now() });
+            break;
+
+          case 'leave-session':
+            leaveCurrentSession();
+            currentSessionId = null;
+            break;
+        }
+      } catch (error) {
+        console.error('WebSocket message error:', error);
+        sendError('internal', 'Failed to process message', message.type);
+      }
+    };
+
+    ws.on('message', (data: Buffer) => {
+      aliveSockets.add(ws);
+
+      const parsed = parseClientMessage(data.toString());
+      if (!parsed.success) {
+        sendError('invalid-message', parsed.error, parsed.type);
+        return;
+      }
+      pending = pending.then(() => handleMessage(parsed.data));
+    });
+
+    ws.on('close', () => {
+      pending = pending.then(() => leaveCurrentSession());
+    });
+  });
+
+  // Entries after the client's last seen seq, or null when it has to resync from scratch
+  function getMissedEntries(
+    log: SessionLog,
+    resume: { epoch: string; seq: number } | undefined,
+    clientId: string,
+  ) {
+    if (!resume || resume.epoch !== log.epoch) return null;
+
+    const firstAvailable = log.entries.length > 0 ? log.entries[0].seq : log.seq + 1;
+    if (resume.seq + 1 < firstAvailable || resume.seq > log.seq) return null;
+
+    return log.entries.filter((entry) => entry.seq > resume.seq && entry.originClientId !== clientId);
+  }
+
+  // Keep live sockets in step with a role change made over the REST API
+  function setConnectionRole(sessionId: string, targetUserId: string, role: ParticipantRole) {
+    activeConnections.get(sessionId)?.forEach((client) => {
+      const info = connectionInfo.get(client);
+      if (info?.userId === targetUserId) {
+        info.role = role;
+      }
+    });
+  }
+
+  function toPresenceUpdate(info: ConnectionInfo, online: boolean): BroadcastMessage {
+    const { connectionId, userId, role, status, filePath } = info;
+    return { type: 'presence-update', connectionId, userId, role, status, filePath, online, timestamp: Date.now() };
+  }
+
+  // Users with at least one open connection to the session, on any server process
+  function getOnlineUserIds(sessionId: string): Set<string> {
+    return new Set(getPresence(sessionId).map((peer) => peer.userId));
+  }
+
+  function getPresence(sessionId: string, exclude?: WebSocket) {
+    const presence: PresenceEntry[] = Array.from(remotePresence.get(sessionId)?.values() ?? []);
+    activeConnections.get(sessionId)?.forEach((client) => {
+      const info = connectionInfo.get(client);
+      if (client !== exclude && info) {
+        const { clientId: _clientId, ...entry } = info;
+        presence.push(entry);
+      }
+    });
+    return presence;
+  }
+
+  function broadcast(sessionId: string, message: BroadcastMessage, exclude?: WebSocket) {
+    const origin = exclude ? connectionInfo.get(exclude) : undefined;
+    deliver(sessionId, message, origin?.clientId, exclude);
+    publish({
+      kind: 'broadcast',
+      nodeId,
+      sessionId,
+      originClientId: origin?.clientId,
+      originConnectionId: origin?.connectionId,
+      message,
+    });
+  }
+
+  // Fan a message out to this process's sockets, numbering it in the session log
+  function deliver(sessionId: string, message: BroadcastMessage, originClientId?: string, exclude?: WebSocket) {
+    const connections = activeConnections.get(sessionId);
+    // Still logged when everyone has dropped, so whoever resumes catches up on it
+    const log = sessionLogs.get(sessionId);
+    if (!log) return;
+
+    const seq = ++log.seq;
+    const messageStr = JSON.stringify({ ...message, seq });
+    log.entries.push({ seq, originClientId, payload: messageStr });
+    if (log.entries.length > SESSION_LOG_SIZE) {
+      log.entries.shift();
+    }
+
+    connections?.forEach((client) => {
+      if (client !== exclude && client.readyState === WebSocket.OPEN) {
+        client.send(messageStr);
+      }
+    });
+  }
+
+  function publish(envelope: BackplaneEnvelope) {
+    backplane.publish(envelope)
+      .catch((error) => console.error('Error publishing to realtime backplane:', error));
+  }
+
+  function handleEnvelope(envelope: BackplaneEnvelope) {
+    if (envelope.nodeId === nodeId) return;
+
+    switch (envelope.kind) {
+      case 'broadcast': {
+        const { sessionId, message, originClientId } = envelope;
+        trackRemotePresence(envelope);
+
+        if (message.type === 'doc-update' && isLive(sessionId)) {
+          getLiveDocument(sessionId)
+            .then((live) => Y.applyUpdate(live.doc, decodeUpdate(message.update), BACKPLANE_ORIGIN))
+            .catch((error) => console.error('Error applying remote update:', error));
+        }
+        if (message.type === 'role-changed') {
+          setConnectionRole(sessionId, message.userId, message.role);
+        }
+
+        deliver(sessionId, message, originClientId);
+        break;
+      }
+
+      case 'sync-request': {
+        // Only a process with people connected, or just disconnected, is sure to hold the current state
+        if (!sessionLogs.has(envelope.sessionId) || !isLive(envelope.sessionId)) break;
+
+        const { sessionId, requestId } = envelope;
+        getLiveDocument(sessionId)
+          .then((live) => publish({
+            kind: 'sync-response',
+            nodeId,
+            sessionId,
+            requestId,
+            update: encodeUpdate(Y.encodeStateAsUpdate(live.doc)),
+            presence: Array.from(activeConnections.get(sessionId) ?? [])
+              .map((client) => connectionInfo.get(client))
+              .filter((info): info is ConnectionInfo => Boolean(info)),
+          }))
+          .catch((error) => console.error('Error answering peer sync:', error));
+        break;
+      }
+
+      case 'sync-response':
+        peerRequests.get(envelope.requestId)?.(envelope);
+        break;
+    }
+  }
+
+  function trackRemotePresence(envelope: Extract<BackplaneEnvelope, { kind: 'broadcast' }>) {
+    const { sessionId, message } = envelope;
+    const peers = remotePresence.get(sessionId) ?? new Map<string, PresenceEntry>();
+
+    switch (message.type) {
+      case 'presence-update': {
+        const key = message.connectionId;
+        if (message.online) {
+          const { connectionId, userId, role, status, filePath } = message;
+          peers.set(key, { connectionId, userId, role, status, filePath, cursor: peers.get(key)?.cursor ?? null });
+        } else {
+          peers.delete(key);
+        }
+        break;
+      }
+      case 'cursor-move': {
+        const peer = envelope.originConnectionId ? peers.get(envelope.originConnectionId) : undefined;
+        if (peer) {
+          peer.cursor = { filePath: message.filePath, anchor: message.anchor, head: message.head };
+        }
+        break;
+      }
+      case 'role-changed':
+        peers.forEach((peer) => {
+          if (peer.userId === message.userId) peer.role = message.role;
+        });
+        break;
+    }
+
+    if (peers.size > 0) {
+      remotePresence.set(sessionId, peers);
+    } else {
+      remotePresence.delete(sessionId);
+    }
+  }
+
+  // Resolves with another process's copy of the session, or null when nobody has it loaded
+  function requestPeerState(sessionId: string): Promise<Uint8Array | null> {
+    const requestId = randomUUID();
+
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => {
+        peerRequests.delete(requestId);
+        resolve(null);
+      }, PEER_SYNC_TIMEOUT_MS);
+
+      peerRequests.set(requestId, (response) => {
+        clearTimeout(timeout);
+        peerRequests.delete(requestId);
+
+        const peers = remotePresence.get(sessionId) ?? new Map<string, PresenceEntry>();
+        response.presence.forEach(({ clientId: _clientId, ...presence }) => {
+          peers.set(presence.connectionId, presence);
+        });
+        if (peers.size > 0) remotePresence.set(sessionId, peers);
+
+        resolve(decodeUpdate(response.update));
+      });
+
+      publish({ kind: 'sync-request', nodeId, sessionId, requestId });
+    });
+  }
+
+  return { broadcast, setConnectionRole, getOnlineUserIds };
+}
+
+export type Realtime = ReturnType<typeof setupRealtime>;
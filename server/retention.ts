@@ -0,0 +1,174 @@
+import { storage } from "./storage";
+import { withAdvisoryLock } from "./db";
+import { diffFiles, summarizeChanges } from "./diff";
+import { log } from "./vite";
+import type { RetentionPolicy, Snapshot } from "@shared/schema";
+
+const RUN_INTERVAL_MS = 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface RetentionPlan {
+  projectId: string;
+  /** Snapshots the policy drops, oldest first */
+  snapshots: Snapshot[];
+  /** Blobs that only those snapshots point at */
+  blobs: { hash: string; size: number }[];
+  reclaimedBytes: number;
+}
+
+export interface RetentionRun {
+  at: string;
+  deleted: number;
+  reclaimedBytes: number;
+}
+
+// The last background run per project, as reported by this server process
+const lastRuns = new Map<string, RetentionRun>();
+
+export function getLastRetentionRun(projectId: string): RetentionRun | null {
+  return lastRuns.get(projectId) ?? null;
+}
+
+// Snapshots someone cared about, or that a session still builds on, are never thinned
+function isProtected(snapshot: Snapshot, commentedIds: Set<string>, headIds: Set<string>): boolean {
+  return snapshot.pinned
+    || snapshot.tags.length > 0
+    || Boolean(snapshot.note)
+    || commentedIds.has(snapshot.id)
+    || headIds.has(snapshot.id);
+}
+
+/**
+ * Picks the automatic snapshots `policy` drops from one session's history.
+ * Past keepAllHours they are grouped by hour, and past keepHourlyDays by day;
+ * the newest of each group stays. Manual snapshots are always kept.
+ */
+function selectThinned(
+  history: Snapshot[],
+  policy: RetentionPolicy,
+  isKept: (snapshot: Snapshot) => boolean,
+  now: number,
+): Snapshot[] {
+  const buckets = new Map<string, Snapshot[]>();
+  for (const snapshot of history) {
+    const age = now - snapshot.timestamp.getTime();
+    if (!snapshot.isAutomatic || age < policy.keepAllHours * HOUR_MS) continue;
+
+    const time = snapshot.timestamp.getTime();
+    const key = age < policy.keepHourlyDays * DAY_MS ? `hour:${Math.floor(time / HOUR_MS)}` : `day:${Math.floor(time / DAY_MS)}`;
+    buckets.set(key, [...(buckets.get(key) ?? []), snapshot]);
+  }
+
+  // History is oldest first, so the last snapshot in each bucket is the one kept
+  return Array.from(buckets.values()).flatMap((bucket) => bucket.slice(0, -1).filter((snapshot) => !isKept(snapshot)));
+}
+
+export async function planRetention(projectId: string, policy: RetentionPolicy, now = Date.now()): Promise<RetentionPlan> {
+  const sessions = await storage.getSessionsByProjectId(projectId);
+  const headIds = new Set(sessions.flatMap((session) => (session.headSnapshotId ? [session.headSnapshotId] : [])));
+
+  const dropped: Snapshot[] = [];
+  for (const session of sessions) {
+    const history = await storage.getSnapshotsBySessionId(session.id);
+    const commentedIds = new Set(await storage.getCommentedSnapshotIds(
+      history.filter((snapshot) => snapshot.isAutomatic).map((snapshot) => snapshot.id),
+    ));
+    dropped.push(...selectThinned(history, policy, (snapshot) => isProtected(snapshot, commentedIds, headIds), now));
+  }
+
+  const hashes = Array.from(new Set(dropped.flatMap((snapshot) => Object.values(snapshot.tree))));
+  const blobs = await storage.getUnreferencedBlobs(hashes, dropped.map((snapshot) => snapshot.id));
+  return {
+    projectId,
+    snapshots: dropped.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()),
+    blobs,
+    reclaimedBytes: blobs.reduce((sum, blob) => sum + blob.size, 0),
+  };
+}
+
+// Children of dropped snapshots move up to their nearest kept ancestor, with metadata measured against it
+async function reparentChildren(history: Snapshot[], droppedIds: Set<string>): Promise<void> {
+  const byId = new Map(history.map((snapshot) => [snapshot.id, snapshot]));
+  const keptAncestor = (id: string | null): string | null => {
+    let current = id ? byId.get(id) : undefined;
+    while (current && droppedIds.has(current.id)) {
+      current = current.baseSnapshotId ? byId.get(current.baseSnapshotId) : undefined;
+    }
+    return current?.id ?? null;
+  };
+
+  for (const snapshot of history) {
+    if (droppedIds.has(snapshot.id)) continue;
+    const baseChanged = Boolean(snapshot.baseSnapshotId && droppedIds.has(snapshot.baseSnapshotId));
+    const mergeChanged = Boolean(snapshot.mergeParentId && droppedIds.has(snapshot.mergeParentId));
+    if (!baseChanged && !mergeChanged) continue;
+
+    const baseSnapshotId = keptAncestor(snapshot.baseSnapshotId);
+    const mergeParentId = keptAncestor(snapshot.mergeParentId);
+    const parent = baseSnapshotId ? byId.get(baseSnapshotId) : undefined;
+    const metadata = baseChanged
+      ? summarizeChanges(diffFiles(
+        parent ? await storage.getSnapshotFiles(parent) : {},
+        await storage.getSnapshotFiles(snapshot),
+      ))
+      : snapshot.metadata;
+
+    await storage.updateSnapshotLineage(snapshot.id, {
+      baseSnapshotId,
+      mergeParentId: mergeParentId === baseSnapshotId ? null : mergeParentId,
+      metadata,
+    });
+  }
+}
+
+/** Deletes what `plan` selected and returns the bytes of blob storage freed */
+export async function applyRetention(plan: RetentionPlan): Promise<{ deleted: number; reclaimedBytes: number }> {
+  const sessions = await storage.getSessionsByProjectId(plan.projectId);
+  // A session may have moved onto one of these snapshots since the plan was made
+  const headIds = new Set(sessions.map((session) => session.headSnapshotId));
+  const droppedIds = new Set(plan.snapshots.filter((snapshot) => !headIds.has(snapshot.id)).map((snapshot) => snapshot.id));
+  if (droppedIds.size === 0) return { deleted: 0, reclaimedBytes: 0 };
+
+  for (const sessionId of Array.from(new Set(plan.snapshots.map((snapshot) => snapshot.sessionId)))) {
+    await reparentChildren(await storage.getSnapshotsBySessionId(sessionId), droppedIds);
+  }
+  await storage.deleteSnapshots(Array.from(droppedIds));
+
+  // Checked again now the snapshots are gone, in case a new snapshot started using a blob meanwhile
+  const blobs = await storage.getUnreferencedBlobs(plan.blobs.map((blob) => blob.hash));
+  await storage.deleteBlobs(blobs.map((blob) => blob.hash));
+  return { deleted: droppedIds.size, reclaimedBytes: blobs.reduce((sum, blob) => sum + blob.size, 0) };
+}
+
+/** Applies every project's retention policy once an hour */
+export function startRetention(): void {
+  let running = false;
+
+  setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      for (const project of await storage.getProjectsWithRetentionPolicy()) {
+        if (!project.retentionPolicy?.enabled) continue;
+        try {
+          const policy = project.retentionPolicy;
+          // Every server process runs this job; whichever gets the lock first prunes the project
+          const result = await withAdvisoryLock(`retention:${project.id}`, async () => applyRetention(await planRetention(project.id, policy)));
+          if (!result) continue;
+          const { deleted, reclaimedBytes } = result;
+          lastRuns.set(project.id, { at: new Date().toISOString(), deleted, reclaimedBytes });
+          if (deleted > 0) {
+            log(`project ${project.id}: deleted ${deleted} snapshots, reclaimed ${reclaimedBytes} bytes`, "retention");
+          }
+        } catch (error) {
+          console.error(`Error applying retention to project ${project.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error("Error running snapshot retention:", error);
+    } finally {
+      running = false;
+    }
+  }, RUN_INTERVAL_MS).unref();
+}
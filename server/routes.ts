@@ -1,16 +1,59 @@
-import type { Express } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
-import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
-import { insertSessionSchema, insertSnapshotSchema, insertInlineCommentSchema, insertFileSchema, insertProjectSchema } from "@shared/schema";
+import { setupAuth, requireAuth } from "./auth";
+import { setupRealtime } from "./realtime";
+import {
+  authorizeSession,
+  authorizeProject,
+  fileProjectId,
+  commentSessionId,
+  snapshotSessionId,
+  inviteSessionId,
+  getSessionRole,
+} from "./permissions";
+import { generateInviteToken, generateJoinCode, getInviteProblem } from "./invites";
+import { flushSessionDocument, isLive, readSessionFiles, replaceSessionFiles, writeSessionFile } from "./collab";
+import { getHeadSnapshot, prepareMerge, sameFiles, takeSnapshot } from "./snapshots";
+import { startAutoSnapshots } from "./auto-snapshots";
+import { getLastRetentionRun, planRetention, startRetention } from "./retention";
+import { formatGitPatch } from "./patch";
+import { diffFiles } from "./diff";
+import { createSnapshotBundle, readSnapshotBundle } from "./bundle";
+import { applySuggestions } from "./suggestions";
+import { can, isParticipantRole, roleRank } from "@shared/permissions";
+import { readSnapshotFiles, type FileComparison, type SnapshotComparison, type SnapshotMetadata } from "@shared/snapshots";
+import { encodeUpdate } from "@shared/collab";
+import { getUnresolvedConflicts, resolveFileMerge } from "@shared/merge";
+import { autoSnapshotPolicySchema, retentionPolicySchema, createInviteSchema, mergeSnapshotsSchema, updateSnapshotAnnotationsSchema, insertSessionSchema, insertInlineCommentSchema, createCommentReplySchema, updateCommentSchema, applySuggestionsSchema, insertFileSchema, insertProjectSchema, type InlineComment, type Snapshot } from "@shared/schema";
 import { db } from "./db";
-import { users, sessions, snapshots, inlineComments, sessionParticipants, files } from "@shared/schema";
-import { eq, desc, count } from "drizzle-orm";
+import { users, sessions, snapshots, inlineComments, sessionParticipants } from "@shared/schema";
+import { eq, desc, count, or, inArray } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
+  const sessionParser = setupAuth(app);
+  const { broadcast, setConnectionRole, getOnlineUserIds } = setupRealtime(httpServer, sessionParser);
 
-  app.get("/api/sessions", async (req, res) => {
+  // Bundles are uploaded as the raw request body
+  const bundleBody = express.raw({ type: ["application/gzip", "application/x-gzip", "application/octet-stream"], limit: "20mb" });
+
+  const announceSnapshot = (snapshot: Snapshot) => {
+    broadcast(snapshot.sessionId, {
+      type: 'snapshot-created',
+      snapshotId: snapshot.id,
+      sessionId: snapshot.sessionId,
+      timestamp: snapshot.timestamp.toISOString(),
+      author: snapshot.authorId,
+      description: snapshot.description,
+      metadata: snapshot.metadata ?? {},
+    });
+  };
+  startAutoSnapshots(announceSnapshot);
+  startRetention();
+
+  app.get("/api/sessions", requireAuth, async (req, res) => {
     try {
       const allSessions = await db
         .select({
@@ -31,6 +74,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         })
         .from(sessions)
         .leftJoin(users, eq(sessions.hostId, users.id))
+        // Only sessions the caller has a role in; the rest would answer 403 anyway
+        .where(or(
+          eq(sessions.hostId, req.user!.id),
+          inArray(
+            sessions.id,
+            db.select({ sessionId: sessionParticipants.sessionId })
+              .from(sessionParticipants)
+              .where(eq(sessionParticipants.userId, req.user!.id)),
+          ),
+        ))
         .orderBy(desc(sessions.createdAt));
 
       const sessionsWithCounts = await Promise.all(
@@ -56,7 +109,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/sessions/:id", async (req, res) => {
+  app.get("/api/sessions/:id", requireAuth, authorizeSession("view"), async (req, res) => {
     try {
       const sessionId = req.params.id;
       const [sessionData] = await db
@@ -69,6 +122,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           status: sessions.status,
           startedAt: sessions.startedAt,
           endedAt: sessions.endedAt,
+          headSnapshotId: sessions.headSnapshotId,
+          autoSnapshotPolicy: sessions.autoSnapshotPolicy,
           createdAt: sessions.createdAt,
           host: {
             id: users.id,
@@ -91,10 +146,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/sessions", async (req, res) => {
+  app.post("/api/sessions", requireAuth, async (req, res) => {
     try {
-      const validatedData = insertSessionSchema.parse(req.body);
+      const validatedData = insertSessionSchema.parse({
+        ...req.body,
+        hostId: req.user!.id,
+      });
+
+      // Live edits are flushed into project files, so every session needs a project
+      if (!validatedData.projectId) {
+        const project = await storage.createProject({
+          ownerId: req.user!.id,
+          name: validatedData.title,
+          description: validatedData.description,
+        });
+        validatedData.projectId = project.id;
+      }
+
       const session = await storage.createSession(validatedData);
+      await storage.addParticipant({
+        sessionId: session.id,
+        userId: session.hostId,
+        role: "host",
+      });
       res.status(201).json(session);
     } catch (error: any) {
       console.error("Error creating session:", error);
@@ -102,7 +176,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/sessions/:id/status", async (req, res) => {
+  app.patch("/api/sessions/:id/status", requireAuth, authorizeSession("manage"), async (req, res) => {
     try {
       const sessionId = req.params.id;
       const { status } = req.body;
@@ -111,7 +185,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid status" });
       }
 
+      // Make sure the files table holds the final state before anyone reads it as history
+      if (status === "finished" || status === "cancelled") {
+        await flushSessionDocument(sessionId);
+      }
+
       await storage.updateSessionStatus(sessionId, status);
+      broadcast(sessionId, {
+        type: 'session-status',
+        status,
+        timestamp: Date.now(),
+      });
       res.json({ success: true });
     } catch (error) {
       console.error("Error updating session status:", error);
@@ -119,7 +203,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/sessions/:id/snapshots", async (req, res) => {
+  app.patch("/api/sessions/:id/auto-snapshots", requireAuth, authorizeSession("manage"), async (req, res) => {
+    try {
+      const policy = autoSnapshotPolicySchema.parse(req.body);
+      await storage.updateAutoSnapshotPolicy(req.params.id, policy);
+      res.json(policy);
+    } catch (error: any) {
+      console.error("Error updating auto-snapshot policy:", error);
+      res.status(400).json({ error: error.message || "Failed to update auto-snapshot policy" });
+    }
+  });
+
+  app.get("/api/sessions/:id/snapshots", requireAuth, authorizeSession("view"), async (req, res) => {
     try {
       const sessionId = req.params.id;
       const snapshotsData = await db
@@ -129,8 +224,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
           authorId: snapshots.authorId,
           timestamp: snapshots.timestamp,
           description: snapshots.description,
-          diff: snapshots.diff,
+          tree: snapshots.tree,
+          metadata: snapshots.metadata,
           baseSnapshotId: snapshots.baseSnapshotId,
+          mergeParentId: snapshots.mergeParentId,
+          isAutomatic: snapshots.isAutomatic,
+          tags: snapshots.tags,
+          pinned: snapshots.pinned,
+          note: snapshots.note,
           author: {
             id: users.id,
             username: users.username,
@@ -165,83 +266,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/sessions/:id/snapshots", async (req, res) => {
+  app.post("/api/sessions/:id/snapshots", requireAuth, authorizeSession("edit"), async (req, res) => {
     try {
       const sessionId = req.params.id;
       
-      // Extract files from request body
-      const filesData = req.body.diff?.files || {};
-      
-      // Get most recent snapshot for diff calculation
-      const previousSnapshots = await db
-        .select()
-        .from(snapshots)
-        .where(eq(snapshots.sessionId, sessionId))
-        .orderBy(desc(snapshots.timestamp))
-        .limit(1);
-      
-      const filesModified = Object.keys(filesData);
-      let linesChanged = 0;
-      
-      if (previousSnapshots.length > 0) {
-        // Calculate diff against previous snapshot
-        const prevDiff = previousSnapshots[0].diff as any;
-        const prevFiles = prevDiff?.files || {};
-        
-        // Compare current files with previous snapshot
-        for (const [path, content] of Object.entries(filesData)) {
-          const currentLines = (content as string).split('\n').length;
-          const prevContent = prevFiles[path] || '';
-          const prevLines = typeof prevContent === 'string' ? prevContent.split('\n').length : 0;
-          linesChanged += Math.abs(currentLines - prevLines);
-        }
-        
-        // Add lines from files that were removed
-        for (const [path, content] of Object.entries(prevFiles)) {
-          if (!filesData[path]) {
-            const prevLines = typeof content === 'string' ? (content as string).split('\n').length : 0;
-            linesChanged += prevLines;
-          }
-        }
-      } else {
-        // First snapshot: all lines are "added"
-        linesChanged = Object.values(filesData).reduce((sum: number, content: any) => {
-          return sum + (typeof content === 'string' ? content.split('\n').length : 0);
-        }, 0);
-      }
-      
-      const metadata = {
-        linesChanged, // Diff delta against previous snapshot (or total if first)
-        filesModified,
-      };
-      
-      // Normalize snapshot format
-      const normalizedDiff = {
-        files: filesData,
-        metadata,
-      };
-      
-      const validatedData = insertSnapshotSchema.parse({
-        description: req.body.description,
-        authorId: req.body.authorId,
+      const snapshot = await takeSnapshot({
         sessionId,
-        diff: normalizedDiff,
+        authorId: req.user!.id,
+        description: req.body.description,
+        files: readSnapshotFiles(req.body.diff),
       });
-      
-      const snapshot = await storage.createSnapshot(validatedData);
-      
-      // Broadcast snapshot-created event via WebSocket
-      if (activeConnections.has(sessionId)) {
-        broadcast(sessionId, {
-          type: 'snapshot-created',
-          snapshotId: snapshot.id,
-          sessionId,
-          timestamp: snapshot.timestamp,
-          author: req.body.authorId,
-          description: snapshot.description,
-          metadata,
-        });
-      }
+      announceSnapshot(snapshot);
       
       res.status(201).json(snapshot);
     } catch (error: any) {
@@ -250,7 +285,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/snapshots/:id", async (req, res) => {
+  app.get("/api/snapshots/:id", requireAuth, authorizeSession("view", snapshotSessionId), async (req, res) => {
     try {
       const snapshotId = req.params.id;
       const [snapshot] = await db
@@ -262,37 +297,425 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Snapshot not found" });
       }
       
-      res.json(snapshot);
+      // Reassemble the original { files, metadata } payload from the blob tree
+      const legacyMetadata = (snapshot.diff as { metadata?: SnapshotMetadata } | null)?.metadata;
+      res.json({
+        ...snapshot,
+        diff: {
+          files: await storage.getSnapshotFiles(snapshot),
+          metadata: snapshot.metadata ?? legacyMetadata ?? null,
+        },
+      });
     } catch (error) {
       console.error("Error fetching snapshot:", error);
       res.status(500).json({ error: "Failed to fetch snapshot" });
     }
   });
 
-  app.get("/api/sessions/:id/comments", async (req, res) => {
+  app.get("/api/snapshots/:id/ancestors", requireAuth, authorizeSession("view", snapshotSessionId), async (req, res) => {
+    try {
+      const ancestors = await storage.getSnapshotAncestors(req.params.id);
+      res.json(ancestors.map(({ tree, diff, ...snapshot }) => snapshot));
+    } catch (error) {
+      console.error("Error fetching snapshot ancestors:", error);
+      res.status(500).json({ error: "Failed to fetch snapshot ancestors" });
+    }
+  });
+
+  app.get("/api/snapshots/:id/descendants", requireAuth, authorizeSession("view", snapshotSessionId), async (req, res) => {
+    try {
+      const descendants = await storage.getSnapshotDescendants(req.params.id);
+      res.json(descendants.map(({ tree, diff, ...snapshot }) => snapshot));
+    } catch (error) {
+      console.error("Error fetching snapshot descendants:", error);
+      res.status(500).json({ error: "Failed to fetch snapshot descendants" });
+    }
+  });
+
+  // The files of :id and :otherId for the compare routes; :id's session is authorized by middleware, :otherId's here
+  const loadComparedFiles = async (req: Request, res: Response) => {
+    const [from, to] = await Promise.all([storage.getSnapshot(req.params.id), storage.getSnapshot(req.params.otherId)]);
+    if (!from || !to) {
+      res.status(404).json({ error: "Snapshot not found" });
+      return null;
+    }
+    if (to.sessionId !== from.sessionId && !can(await getSessionRole(to.sessionId, req.user!.id), "view")) {
+      res.status(403).json({ error: "You are not a member of this session" });
+      return null;
+    }
+
+    const [fromFiles, toFiles] = await Promise.all([storage.getSnapshotFiles(from), storage.getSnapshotFiles(to)]);
+    return { from, to, fromFiles, toFiles };
+  };
+
+  // A git-style patch from one snapshot to another, which `git apply` accepts
+  app.get("/api/snapshots/:id/compare/:otherId.patch", requireAuth, authorizeSession("view", snapshotSessionId), async (req, res) => {
+    try {
+      const compared = await loadComparedFiles(req, res);
+      if (!compared) return;
+      res.type("text/x-diff").send(formatGitPatch(compared.fromFiles, compared.toFiles));
+    } catch (error) {
+      console.error("Error creating patch:", error);
+      res.status(500).json({ error: "Failed to create patch" });
+    }
+  });
+
+  // Registered after the .patch route, which would otherwise match here with ".patch" in :otherId
+  app.get("/api/snapshots/:id/compare/:otherId", requireAuth, authorizeSession("view", snapshotSessionId), async (req, res) => {
+    try {
+      const compared = await loadComparedFiles(req, res);
+      if (!compared) return;
+
+      const changes = diffFiles(compared.fromFiles, compared.toFiles);
+      const comparison: SnapshotComparison = {
+        fromId: compared.from.id,
+        toId: compared.to.id,
+        changes,
+        stats: {
+          added: changes.reduce((sum, change) => sum + change.added, 0),
+          removed: changes.reduce((sum, change) => sum + change.removed, 0),
+          modified: changes.reduce((sum, change) => sum + change.modified, 0),
+        },
+      };
+      res.json(comparison);
+    } catch (error) {
+      console.error("Error comparing snapshots:", error);
+      res.status(500).json({ error: "Failed to compare snapshots" });
+    }
+  });
+
+  app.get("/api/snapshots/:id/compare/:otherId/file", requireAuth, authorizeSession("view", snapshotSessionId), async (req, res) => {
+    try {
+      const path = req.query.path;
+      if (typeof path !== "string") {
+        return res.status(400).json({ error: "path is required" });
+      }
+
+      const compared = await loadComparedFiles(req, res);
+      if (!compared) return;
+
+      const change = diffFiles(compared.fromFiles, compared.toFiles).find((candidate) => candidate.path === path);
+      if (!change) {
+        return res.status(404).json({ error: "The file is the same in both snapshots" });
+      }
+      const file: FileComparison = {
+        ...change,
+        oldContent: compared.fromFiles[change.previousPath ?? change.path] ?? "",
+        newContent: compared.toFiles[change.path] ?? "",
+      };
+      res.json(file);
+    } catch (error) {
+      console.error("Error comparing file:", error);
+      res.status(500).json({ error: "Failed to compare file" });
+    }
+  });
+
+  app.get("/api/snapshots/:id/bundle", requireAuth, authorizeSession("view", snapshotSessionId), async (req, res) => {
+    try {
+      const snapshot = await storage.getSnapshot(req.params.id);
+      if (!snapshot) {
+        return res.status(404).json({ error: "Snapshot not found" });
+      }
+
+      const session = await storage.getSession(snapshot.sessionId);
+      const bundle = createSnapshotBundle(
+        {
+          id: snapshot.id,
+          description: snapshot.description,
+          timestamp: snapshot.timestamp.toISOString(),
+          tags: snapshot.tags,
+          note: snapshot.note,
+        },
+        session ? { id: session.id, title: session.title } : null,
+        await storage.getSnapshotFiles(snapshot),
+      );
+      res
+        .type("application/gzip")
+        .attachment(`snapshot-${snapshot.id.slice(0, 8)}.tar.gz`)
+        .send(bundle);
+    } catch (error) {
+      console.error("Error exporting snapshot:", error);
+      res.status(500).json({ error: "Failed to export snapshot" });
+    }
+  });
+
+  // Adds a bundle's files to the session as a snapshot of their own, off to the side of its history
+  app.post("/api/sessions/:id/snapshots/import", requireAuth, authorizeSession("edit"), bundleBody, async (req, res) => {
+    try {
+      if (!Buffer.isBuffer(req.body)) {
+        return res.status(400).json({ error: "Send the bundle as application/gzip" });
+      }
+      const { manifest, files } = readSnapshotBundle(req.body);
+
+      let snapshot = await takeSnapshot({
+        sessionId: req.params.id,
+        authorId: req.user!.id,
+        description: `Imported: ${manifest.snapshot.description || "unnamed snapshot"}`,
+        files,
+        detached: true,
+      });
+      if (manifest.snapshot.tags.length > 0 || manifest.snapshot.note) {
+        snapshot = (await storage.updateSnapshotAnnotations(snapshot.id, {
+          tags: manifest.snapshot.tags,
+          note: manifest.snapshot.note,
+        })) ?? snapshot;
+      }
+      announceSnapshot(snapshot);
+
+      res.status(201).json(snapshot);
+    } catch (error: any) {
+      console.error("Error importing snapshot:", error);
+      res.status(400).json({ error: error.message || "Failed to import snapshot" });
+    }
+  });
+
+  // Rolls the session's files back to a snapshot, keeping the state it replaces as a snapshot of its own
+  app.post("/api/snapshots/:id/restore", requireAuth, authorizeSession("edit", snapshotSessionId), async (req, res) => {
+    try {
+      const snapshot = await storage.getSnapshot(req.params.id);
+      if (!snapshot) {
+        return res.status(404).json({ error: "Snapshot not found" });
+      }
+
+      const sessionId = snapshot.sessionId;
+      const userId = req.user!.id;
+      const label = snapshot.description ? `"${snapshot.description}"` : "an earlier snapshot";
+
+      const safetySnapshot = await takeSnapshot({
+        sessionId,
+        authorId: userId,
+        description: `Before restoring ${label}`,
+        files: await readSessionFiles(sessionId),
+      });
+      announceSnapshot(safetySnapshot);
+
+      const files = await storage.getSnapshotFiles(snapshot);
+      const update = await replaceSessionFiles(sessionId, files);
+      broadcast(sessionId, {
+        type: 'doc-update',
+        userId,
+        update: encodeUpdate(update),
+        timestamp: Date.now(),
+      });
+
+      // Recorded on top of the safety snapshot, so the rollback reads as one more step in the history
+      const restored = await takeSnapshot({
+        sessionId,
+        authorId: userId,
+        description: `Restored ${label}`,
+        files,
+      });
+      announceSnapshot(restored);
+
+      broadcast(sessionId, {
+        type: 'snapshot-restored',
+        snapshotId: snapshot.id,
+        safetySnapshotId: safetySnapshot.id,
+        userId,
+        timestamp: Date.now(),
+      });
+
+      res.json({ snapshot: restored, safetySnapshot });
+    } catch (error) {
+      console.error("Error restoring snapshot:", error);
+      res.status(500).json({ error: "Failed to restore snapshot" });
+    }
+  });
+
+  // What merging :otherId into :id would produce, with any conflicts left for the caller to resolve
+  app.get("/api/snapshots/:id/merge/:otherId", requireAuth, authorizeSession("view", snapshotSessionId), async (req, res) => {
+    try {
+      const [ours, theirs] = await Promise.all([storage.getSnapshot(req.params.id), storage.getSnapshot(req.params.otherId)]);
+      if (!ours || !theirs || theirs.sessionId !== ours.sessionId) {
+        return res.status(404).json({ error: "Snapshot not found" });
+      }
+
+      const { preview } = await prepareMerge(ours, theirs);
+      res.json(preview);
+    } catch (error) {
+      console.error("Error previewing merge:", error);
+      res.status(500).json({ error: "Failed to preview merge" });
+    }
+  });
+
+  app.post("/api/snapshots/:id/merge/:otherId", requireAuth, authorizeSession("edit", snapshotSessionId), async (req, res) => {
+    try {
+      const [ours, theirs] = await Promise.all([storage.getSnapshot(req.params.id), storage.getSnapshot(req.params.otherId)]);
+      if (!ours || !theirs || theirs.sessionId !== ours.sessionId) {
+        return res.status(404).json({ error: "Snapshot not found" });
+      }
+
+      const { description, resolutions } = mergeSnapshotsSchema.parse(req.body ?? {});
+      const { preview, oursFiles } = await prepareMerge(ours, theirs);
+      if (preview.baseSnapshotId === theirs.id) {
+        return res.status(400).json({ error: "This snapshot is already part of the other one's history" });
+      }
+
+      const unresolved = preview.files
+        .filter((file) => getUnresolvedConflicts(file, resolutions[file.path]).length > 0)
+        .map((file) => file.path);
+      if (unresolved.length > 0) {
+        return res.status(409).json({ error: "Resolve every conflict before merging", unresolved });
+      }
+
+      const files = { ...oursFiles };
+      for (const file of preview.files) {
+        const content = resolveFileMerge(file, resolutions[file.path]);
+        if (content === null) {
+          delete files[file.path];
+        } else {
+          files[file.path] = content;
+        }
+      }
+
+      const sessionId = ours.sessionId;
+      const userId = req.user!.id;
+
+      // The merge replaces the session's files, so keep any edits made since the head was taken
+      const [liveFiles, head] = await Promise.all([readSessionFiles(sessionId), getHeadSnapshot(sessionId)]);
+      if (!head || !sameFiles(liveFiles, await storage.getSnapshotFiles(head))) {
+        announceSnapshot(await takeSnapshot({
+          sessionId,
+          authorId: userId,
+          description: "Before merging",
+          files: liveFiles,
+        }));
+      }
+
+      const merged = await takeSnapshot({
+        sessionId,
+        authorId: userId,
+        description: description || `Merged ${theirs.description ? `"${theirs.description}"` : "a branch"}`,
+        files,
+        parentId: ours.id,
+        mergeParentId: theirs.id,
+      });
+      announceSnapshot(merged);
+
+      const update = await replaceSessionFiles(sessionId, files);
+      broadcast(sessionId, {
+        type: 'doc-update',
+        userId,
+        update: encodeUpdate(update),
+        timestamp: Date.now(),
+      });
+      broadcast(sessionId, {
+        type: 'head-changed',
+        snapshotId: merged.id,
+        userId,
+        timestamp: Date.now(),
+      });
+
+      res.status(201).json(merged);
+    } catch (error: any) {
+      console.error("Error merging snapshots:", error);
+      res.status(400).json({ error: error.message || "Failed to merge snapshots" });
+    }
+  });
+
+  app.patch("/api/snapshots/:id/annotations", requireAuth, authorizeSession("edit", snapshotSessionId), async (req, res) => {
+    try {
+      const annotations = updateSnapshotAnnotationsSchema.parse(req.body);
+      const snapshot = await storage.updateSnapshotAnnotations(req.params.id, annotations);
+      if (!snapshot) {
+        return res.status(404).json({ error: "Snapshot not found" });
+      }
+
+      broadcast(snapshot.sessionId, {
+        type: 'snapshot-updated',
+        snapshotId: snapshot.id,
+        userId: req.user!.id,
+        timestamp: Date.now(),
+      });
+      res.json({ id: snapshot.id, tags: snapshot.tags, pinned: snapshot.pinned, note: snapshot.note });
+    } catch (error: any) {
+      console.error("Error updating snapshot annotations:", error);
+      res.status(400).json({ error: error.message || "Failed to update snapshot" });
+    }
+  });
+
+  // Checks out a snapshot: the session's files become its files and the next snapshot branches from it
+  app.post("/api/snapshots/:id/fork", requireAuth, authorizeSession("edit", snapshotSessionId), async (req, res) => {
+    try {
+      const snapshot = await storage.getSnapshot(req.params.id);
+      if (!snapshot) {
+        return res.status(404).json({ error: "Snapshot not found" });
+      }
+
+      const sessionId = snapshot.sessionId;
+      const update = await replaceSessionFiles(sessionId, await storage.getSnapshotFiles(snapshot));
+      await storage.setSessionHead(sessionId, snapshot.id);
+
+      broadcast(sessionId, {
+        type: 'doc-update',
+        userId: req.user!.id,
+        update: encodeUpdate(update),
+        timestamp: Date.now(),
+      });
+      broadcast(sessionId, {
+        type: 'head-changed',
+        snapshotId: snapshot.id,
+        userId: req.user!.id,
+        timestamp: Date.now(),
+      });
+
+      res.json({ headSnapshotId: snapshot.id });
+    } catch (error) {
+      console.error("Error forking snapshot:", error);
+      res.status(500).json({ error: "Failed to fork snapshot" });
+    }
+  });
+
+  // Comments are listed with their author (and whoever applied their suggestion), oldest first
+  const suggestionAppliers = alias(users, "suggestion_appliers");
+  const selectComments = () => db
+    .select({
+      id: inlineComments.id,
+      sessionId: inlineComments.sessionId,
+      snapshotId: inlineComments.snapshotId,
+      parentId: inlineComments.parentId,
+      filePath: inlineComments.filePath,
+      range: inlineComments.range,
+      anchor: inlineComments.anchor,
+      authorId: inlineComments.authorId,
+      text: inlineComments.text,
+      status: inlineComments.status,
+      suggestion: inlineComments.suggestion,
+      suggestionAppliedBy: inlineComments.suggestionAppliedBy,
+      suggestionAppliedAt: inlineComments.suggestionAppliedAt,
+      editedAt: inlineComments.editedAt,
+      deletedAt: inlineComments.deletedAt,
+      createdAt: inlineComments.createdAt,
+      updatedAt: inlineComments.updatedAt,
+      author: {
+        id: users.id,
+        username: users.username,
+        email: users.email,
+        avatarUrl: users.avatarUrl,
+      },
+      suggestionApplier: {
+        id: suggestionAppliers.id,
+        username: suggestionAppliers.username,
+      },
+    })
+    .from(inlineComments)
+    .leftJoin(users, eq(inlineComments.authorId, users.id))
+    .leftJoin(suggestionAppliers, eq(inlineComments.suggestionAppliedBy, suggestionAppliers.id));
+
+  const announceComment = (comment: InlineComment) => {
+    broadcast(comment.sessionId, {
+      type: 'comment-added',
+      commentId: comment.id,
+      parentId: comment.parentId,
+      userId: comment.authorId,
+      timestamp: Date.now(),
+    });
+  };
+
+  app.get("/api/sessions/:id/comments", requireAuth, authorizeSession("view"), async (req, res) => {
     try {
       const sessionId = req.params.id;
-      const commentsData = await db
-        .select({
-          id: inlineComments.id,
-          sessionId: inlineComments.sessionId,
-          snapshotId: inlineComments.snapshotId,
-          filePath: inlineComments.filePath,
-          range: inlineComments.range,
-          authorId: inlineComments.authorId,
-          text: inlineComments.text,
-          status: inlineComments.status,
-          createdAt: inlineComments.createdAt,
-          updatedAt: inlineComments.updatedAt,
-          author: {
-            id: users.id,
-            username: users.username,
-            email: users.email,
-            avatarUrl: users.avatarUrl,
-          },
-        })
-        .from(inlineComments)
-        .leftJoin(users, eq(inlineComments.authorId, users.id))
+      const commentsData = await selectComments()
         .where(eq(inlineComments.sessionId, sessionId))
         .orderBy(inlineComments.createdAt);
 
@@ -303,14 +726,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/sessions/:id/comments", async (req, res) => {
+  app.post("/api/sessions/:id/comments", requireAuth, authorizeSession("comment"), async (req, res) => {
     try {
       const sessionId = req.params.id;
       const validatedData = insertInlineCommentSchema.parse({
         ...req.body,
+        authorId: req.user!.id,
         sessionId,
+        // Replies go through /api/comments/:id/replies
+        parentId: null,
       });
+
+      // A comment on another session's snapshot would also keep that snapshot from retention
+      const snapshot = await storage.getSnapshot(validatedData.snapshotId);
+      if (!snapshot || snapshot.sessionId !== sessionId) {
+        return res.status(404).json({ error: "Snapshot not found in this session" });
+      }
+
       const comment = await storage.createComment(validatedData);
+      announceComment(comment);
       res.status(201).json(comment);
     } catch (error: any) {
       console.error("Error creating comment:", error);
@@ -318,16 +752,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/comments/:id/status", async (req, res) => {
+  app.get("/api/comments/:id/replies", requireAuth, authorizeSession("view", commentSessionId), async (req, res) => {
+    try {
+      const comment = await storage.getComment(req.params.id);
+      if (!comment) {
+        return res.status(404).json({ error: "Comment not found" });
+      }
+
+      const replies = await selectComments()
+        .where(eq(inlineComments.parentId, comment.parentId ?? comment.id))
+        .orderBy(inlineComments.createdAt);
+      res.json(replies);
+    } catch (error) {
+      console.error("Error fetching replies:", error);
+      res.status(500).json({ error: "Failed to fetch replies" });
+    }
+  });
+
+  app.post("/api/comments/:id/replies", requireAuth, authorizeSession("comment", commentSessionId), async (req, res) => {
+    try {
+      const { text } = createCommentReplySchema.parse(req.body);
+      const comment = await storage.getComment(req.params.id);
+      if (!comment) {
+        return res.status(404).json({ error: "Comment not found" });
+      }
+
+      // Replying to a reply adds to the same thread
+      const thread = comment.parentId ? await storage.getComment(comment.parentId) : comment;
+      if (!thread) {
+        return res.status(404).json({ error: "Comment not found" });
+      }
+
+      const reply = await storage.createComment(insertInlineCommentSchema.parse({
+        sessionId: thread.sessionId,
+        snapshotId: thread.snapshotId,
+        parentId: thread.id,
+        filePath: thread.filePath,
+        range: thread.range,
+        authorId: req.user!.id,
+        text,
+      }));
+      announceComment(reply);
+      res.status(201).json(reply);
+    } catch (error: any) {
+      console.error("Error creating reply:", error);
+      res.status(400).json({ error: error.message || "Failed to create reply" });
+    }
+  });
+
+  // Status belongs to the thread, so setting it on a reply sets it on the comment that started it
+  app.patch("/api/comments/:id/status", requireAuth, authorizeSession("comment", commentSessionId), async (req, res) => {
     try {
-      const commentId = req.params.id;
       const { status } = req.body;
       
       if (!["open", "resolved", "closed"].includes(status)) {
         return res.status(400).json({ error: "Invalid status" });
       }
 
-      await storage.updateCommentStatus(commentId, status);
+      const comment = await storage.getComment(req.params.id);
+      if (!comment) {
+        return res.status(404).json({ error: "Comment not found" });
+      }
+
+      await storage.updateCommentStatus(comment.parentId ?? comment.id, status);
       res.json({ success: true });
     } catch (error) {
       console.error("Error updating comment status:", error);
@@ -335,7 +822,155 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/sessions/:id/participants", async (req, res) => {
+  const announceCommentUpdate = (comment: InlineComment, userId: string) => {
+    broadcast(comment.sessionId, {
+      type: 'comment-updated',
+      commentId: comment.id,
+      userId,
+      timestamp: Date.now(),
+    });
+  };
+
+  // Only a comment's author may change or delete it, and never once it has been deleted
+  const loadOwnComment = async (req: Request, res: Response) => {
+    const comment = await storage.getComment(req.params.id);
+    if (!comment || comment.deletedAt) {
+      res.status(404).json({ error: "Comment not found" });
+      return null;
+    }
+    if (comment.authorId !== req.user!.id) {
+      res.status(403).json({ error: "Only the author can change this comment" });
+      return null;
+    }
+    return comment;
+  };
+
+  app.patch("/api/comments/:id", requireAuth, authorizeSession("comment", commentSessionId), async (req, res) => {
+    try {
+      const { text } = updateCommentSchema.parse(req.body);
+      const comment = await loadOwnComment(req, res);
+      if (!comment) return;
+
+      const updated = await storage.updateCommentText(comment.id, text);
+      announceCommentUpdate(updated, req.user!.id);
+      res.json(updated);
+    } catch (error: any) {
+      console.error("Error editing comment:", error);
+      res.status(400).json({ error: error.message || "Failed to edit comment" });
+    }
+  });
+
+  app.delete("/api/comments/:id", requireAuth, authorizeSession("comment", commentSessionId), async (req, res) => {
+    try {
+      const comment = await loadOwnComment(req, res);
+      if (!comment) return;
+
+      await storage.softDeleteComment(comment.id);
+      announceCommentUpdate(comment, req.user!.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting comment:", error);
+      res.status(500).json({ error: "Failed to delete comment" });
+    }
+  });
+
+  // Earlier versions of a comment's text, newest first
+  app.get("/api/comments/:id/history", requireAuth, authorizeSession("view", commentSessionId), async (req, res) => {
+    try {
+      res.json(await storage.getCommentEdits(req.params.id));
+    } catch (error) {
+      console.error("Error fetching comment history:", error);
+      res.status(500).json({ error: "Failed to fetch comment history" });
+    }
+  });
+
+  // Applies suggestions to the live files in one edit; answers 409 with the stale ones if any code has moved on
+  const applyCommentSuggestions = async (req: Request, res: Response, sessionId: string, commentIds: string[]) => {
+    const comments: InlineComment[] = [];
+    for (const id of Array.from(new Set(commentIds))) {
+      const comment = await storage.getComment(id);
+      if (!comment || comment.sessionId !== sessionId) {
+        res.status(404).json({ error: "Comment not found" });
+        return null;
+      }
+      if (!comment.suggestion) {
+        res.status(400).json({ error: "This comment has no suggestion" });
+        return null;
+      }
+      if (comment.suggestionAppliedAt) {
+        res.status(400).json({ error: "This suggestion has already been applied" });
+        return null;
+      }
+      comments.push(comment);
+    }
+
+    const { stale, update } = await applySuggestions(sessionId, comments);
+    if (!update) {
+      res.status(409).json({ error: "The code has changed since the suggestion was made", stale });
+      return null;
+    }
+
+    const userId = req.user!.id;
+    await storage.markSuggestionsApplied(comments.map((comment) => comment.id), userId);
+    broadcast(sessionId, {
+      type: 'doc-update',
+      userId,
+      update: encodeUpdate(update),
+      timestamp: Date.now(),
+    });
+    comments.forEach((comment) => announceCommentUpdate(comment, userId));
+    return comments;
+  };
+
+  app.post("/api/comments/:id/suggestion/apply", requireAuth, authorizeSession("edit", commentSessionId), async (req, res) => {
+    try {
+      const comment = await storage.getComment(req.params.id);
+      if (!comment) {
+        return res.status(404).json({ error: "Comment not found" });
+      }
+
+      const applied = await applyCommentSuggestions(req, res, comment.sessionId, [comment.id]);
+      if (!applied) return;
+      res.json({ applied: applied.map((c) => c.id) });
+    } catch (error) {
+      console.error("Error applying suggestion:", error);
+      res.status(500).json({ error: "Failed to apply suggestion" });
+    }
+  });
+
+  // Several suggestions at once, recorded as a single snapshot unless `snapshot` is false
+  app.post("/api/sessions/:id/suggestions/apply", requireAuth, authorizeSession("edit"), async (req, res) => {
+    try {
+      const sessionId = req.params.id;
+      const parsed = applySuggestionsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.issues[0].message });
+      }
+
+      const applied = await applyCommentSuggestions(req, res, sessionId, parsed.data.commentIds);
+      if (!applied) return;
+
+      let snapshotId: string | null = null;
+      if (parsed.data.snapshot) {
+        const snapshot = await takeSnapshot({
+          sessionId,
+          authorId: req.user!.id,
+          description: parsed.data.description
+            || `Applied ${applied.length} ${applied.length === 1 ? "suggestion" : "suggestions"}`,
+          files: await readSessionFiles(sessionId),
+        });
+        announceSnapshot(snapshot);
+        snapshotId = snapshot.id;
+      }
+
+      res.json({ applied: applied.map((c) => c.id), snapshotId });
+    } catch (error) {
+      console.error("Error applying suggestions:", error);
+      res.status(500).json({ error: "Failed to apply suggestions" });
+    }
+  });
+
+  app.get("/api/sessions/:id/participants", requireAuth, authorizeSession("view"), async (req, res) => {
     try {
       const sessionId = req.params.id;
       const participantsData = await db
@@ -361,11 +996,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .leftJoin(users, eq(sessionParticipants.userId, users.id))
         .where(eq(sessionParticipants.sessionId, sessionId));
 
+      // Online means an open connection right now; leftAt can go stale if a server dies mid-session
+      const onlineUserIds = getOnlineUserIds(sessionId);
       const participants = participantsData.map((p) => ({
         id: p.id,
+        userId: p.userId,
         role: p.role,
         user: p.user!,
-        isOnline: p.leftAt === null,
+        isOnline: onlineUserIds.has(p.userId),
       }));
 
       res.json(participants);
@@ -375,7 +1013,155 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/projects/:id/files", async (req, res) => {
+  app.patch("/api/sessions/:id/participants/:userId/role", requireAuth, authorizeSession("manage"), async (req, res) => {
+    try {
+      const { id: sessionId, userId } = req.params;
+      const { role } = req.body;
+
+      if (!isParticipantRole(role) || role === "host") {
+        return res.status(400).json({ error: "Role must be participant or observer" });
+      }
+
+      const session = await storage.getSession(sessionId);
+      if (session?.hostId === userId) {
+        return res.status(400).json({ error: "The host's role cannot be changed" });
+      }
+
+      const participant = await storage.getParticipant(sessionId, userId);
+      if (!participant) {
+        return res.status(404).json({ error: "Participant not found" });
+      }
+
+      await storage.updateParticipantRole(sessionId, userId, role);
+      setConnectionRole(sessionId, userId, role);
+
+      broadcast(sessionId, {
+        type: 'role-changed',
+        userId,
+        role,
+        changedBy: req.user!.id,
+        timestamp: Date.now(),
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error updating participant role:", error);
+      res.status(500).json({ error: "Failed to update participant role" });
+    }
+  });
+
+  app.get("/api/sessions/:id/invites", requireAuth, authorizeSession("manage"), async (req, res) => {
+    try {
+      const invites = await storage.getActiveInvitesBySessionId(req.params.id);
+      res.json(invites);
+    } catch (error) {
+      console.error("Error fetching invites:", error);
+      res.status(500).json({ error: "Failed to fetch invites" });
+    }
+  });
+
+  app.post("/api/sessions/:id/invites", requireAuth, authorizeSession("manage"), async (req, res) => {
+    try {
+      const { role, expiresInHours, withCode } = createInviteSchema.parse(req.body ?? {});
+      const invite = await storage.createInvite({
+        sessionId: req.params.id,
+        token: generateInviteToken(),
+        code: withCode ? generateJoinCode() : null,
+        role,
+        createdBy: req.user!.id,
+        expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+      });
+      res.status(201).json(invite);
+    } catch (error: any) {
+      console.error("Error creating invite:", error);
+      res.status(400).json({ error: error.message || "Failed to create invite" });
+    }
+  });
+
+  app.delete("/api/invites/:id", requireAuth, authorizeSession("manage", inviteSessionId), async (req, res) => {
+    try {
+      await storage.revokeInvite(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error revoking invite:", error);
+      res.status(500).json({ error: "Failed to revoke invite" });
+    }
+  });
+
+  // Anyone logged in may look at an invite; the token itself is the credential
+  app.get("/api/invites/:token", requireAuth, async (req, res) => {
+    try {
+      const invite = await storage.getInviteByTokenOrCode(req.params.token);
+      if (!invite) {
+        return res.status(404).json({ error: "Invite not found" });
+      }
+      const problem = getInviteProblem(invite);
+      if (problem) {
+        return res.status(410).json({ error: problem });
+      }
+
+      const session = await storage.getSession(invite.sessionId);
+      const host = session ? await storage.getUser(session.hostId) : undefined;
+      const role = await getSessionRole(invite.sessionId, req.user!.id);
+
+      res.json({
+        sessionId: invite.sessionId,
+        sessionTitle: session?.title,
+        hostName: host?.displayName || host?.username,
+        role: invite.role,
+        expiresAt: invite.expiresAt,
+        currentRole: role,
+      });
+    } catch (error) {
+      console.error("Error fetching invite:", error);
+      res.status(500).json({ error: "Failed to fetch invite" });
+    }
+  });
+
+  app.post("/api/invites/:token/accept", requireAuth, async (req, res) => {
+    try {
+      const invite = await storage.getInviteByTokenOrCode(req.params.token);
+      if (!invite) {
+        return res.status(404).json({ error: "Invite not found" });
+      }
+      const problem = getInviteProblem(invite);
+      if (problem) {
+        return res.status(410).json({ error: problem });
+      }
+      if (!isParticipantRole(invite.role)) {
+        return res.status(400).json({ error: "Invite has an unknown role" });
+      }
+
+      const sessionId = invite.sessionId;
+      const userId = req.user!.id;
+      const currentRole = await getSessionRole(sessionId, userId);
+
+      if (!currentRole) {
+        await storage.addParticipant({ sessionId, userId, role: invite.role });
+        await storage.incrementInviteUseCount(invite.id);
+      } else if (roleRank(invite.role) > roleRank(currentRole)) {
+        // An invite can promote an existing member but never demote one
+        await storage.updateParticipantRole(sessionId, userId, invite.role);
+        await storage.incrementInviteUseCount(invite.id);
+        setConnectionRole(sessionId, userId, invite.role);
+        broadcast(sessionId, {
+          type: 'role-changed',
+          userId,
+          role: invite.role,
+          changedBy: invite.createdBy,
+          timestamp: Date.now(),
+        });
+      }
+
+      const role = await getSessionRole(sessionId, userId);
+      res.json({ sessionId, role });
+    } catch (error) {
+      console.error("Error accepting invite:", error);
+      res.status(500).json({ error: "Failed to accept invite" });
+    }
+  });
+
+  app.get("/api/projects/:id/files", requireAuth, authorizeProject("view"), async (req, res) => {
     try {
       const projectId = req.params.id;
       const files = await storage.getFilesByProjectId(projectId);
@@ -386,13 +1172,127 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/projects/:projectId/files", async (req, res) => {
+  // Starts a new project, and a session on it, from a bundle's files
+  app.post("/api/projects/import", requireAuth, bundleBody, async (req, res) => {
+    try {
+      if (!Buffer.isBuffer(req.body)) {
+        return res.status(400).json({ error: "Send the bundle as application/gzip" });
+      }
+      const { manifest, files } = readSnapshotBundle(req.body);
+      const title = manifest.session?.title ?? manifest.snapshot.description ?? "Imported snapshot";
+
+      const project = await storage.createProject({
+        ownerId: req.user!.id,
+        name: title,
+        description: manifest.snapshot.description,
+      });
+      for (const [path, content] of Object.entries(files)) {
+        await storage.createFile(insertFileSchema.parse({ projectId: project.id, path, content }));
+      }
+
+      const session = await storage.createSession(insertSessionSchema.parse({
+        projectId: project.id,
+        hostId: req.user!.id,
+        title,
+      }));
+      await storage.addParticipant({
+        sessionId: session.id,
+        userId: session.hostId,
+        role: "host",
+      });
+      const snapshot = await takeSnapshot({
+        sessionId: session.id,
+        authorId: req.user!.id,
+        description: `Imported: ${manifest.snapshot.description || "unnamed snapshot"}`,
+        files,
+      });
+
+      res.status(201).json({ projectId: project.id, sessionId: session.id, snapshotId: snapshot.id });
+    } catch (error: any) {
+      console.error("Error importing project:", error);
+      res.status(400).json({ error: error.message || "Failed to import project" });
+    }
+  });
+
+  app.get("/api/projects/:id/retention", requireAuth, authorizeProject("view"), async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      res.json({ policy: project?.retentionPolicy ?? null, lastRun: getLastRetentionRun(req.params.id) });
+    } catch (error) {
+      console.error("Error fetching retention policy:", error);
+      res.status(500).json({ error: "Failed to fetch retention policy" });
+    }
+  });
+
+  app.put("/api/projects/:id/retention", requireAuth, authorizeProject("manage"), async (req, res) => {
+    try {
+      const policy = retentionPolicySchema.parse(req.body);
+      await storage.updateRetentionPolicy(req.params.id, policy);
+      res.json({ policy });
+    } catch (error: any) {
+      console.error("Error updating retention policy:", error);
+      res.status(400).json({ error: error.message || "Failed to update retention policy" });
+    }
+  });
+
+  // Previews what the saved policy, or one sent in the body, would delete right now
+  app.post("/api/projects/:id/retention/dry-run", requireAuth, authorizeProject("manage"), async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      const hasBody = req.body && Object.keys(req.body).length > 0;
+      const policy = hasBody ? retentionPolicySchema.parse(req.body) : project?.retentionPolicy;
+      if (!policy) {
+        return res.status(400).json({ error: "This project has no retention policy" });
+      }
+
+      const plan = await planRetention(req.params.id, policy);
+      res.json({
+        snapshotCount: plan.snapshots.length,
+        blobCount: plan.blobs.length,
+        reclaimedBytes: plan.reclaimedBytes,
+        snapshots: plan.snapshots.map((snapshot) => ({
+          id: snapshot.id,
+          sessionId: snapshot.sessionId,
+          description: snapshot.description,
+          timestamp: snapshot.timestamp,
+        })),
+      });
+    } catch (error: any) {
+      console.error("Error previewing retention:", error);
+      res.status(400).json({ error: error.message || "Failed to preview retention" });
+    }
+  });
+
+  // While a session on the project is open its live document holds the files, so writes go through it
+  // and the files table catches up on the flush; a write straight to the table would be overwritten
+  const writeProjectFile = async (projectId: string, path: string, content: string | null, userId: string) => {
+    const openSessions = (await storage.getSessionsByProjectId(projectId))
+      .filter((session) => isLive(session.id) || session.status === "live");
+    for (const session of openSessions) {
+      const update = await writeSessionFile(session.id, path, content);
+      broadcast(session.id, {
+        type: 'doc-update',
+        userId,
+        update: encodeUpdate(update),
+        timestamp: Date.now(),
+      });
+    }
+    return openSessions.length > 0;
+  };
+
+  app.post("/api/projects/:projectId/files", requireAuth, authorizeProject("edit", (req) => req.params.projectId), async (req, res) => {
     try {
       const projectId = req.params.projectId;
       const validatedData = insertFileSchema.parse({
         ...req.body,
         projectId,
       });
+
+      if (await writeProjectFile(projectId, validatedData.path, validatedData.content ?? "", req.user!.id)) {
+        const files = await storage.getFilesByProjectId(projectId);
+        return res.status(201).json(files.find((file) => file.path === validatedData.path));
+      }
+
       const file = await storage.createFile(validatedData);
       res.status(201).json(file);
     } catch (error: any) {
@@ -401,16 +1301,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/files/:id", async (req, res) => {
+  app.patch("/api/files/:id", requireAuth, authorizeProject("edit", fileProjectId), async (req, res) => {
     try {
       const fileId = req.params.id;
       const { content } = req.body;
       
-      if (content === undefined) {
+      if (typeof content !== "string") {
         return res.status(400).json({ error: "Content is required" });
       }
 
-      await storage.updateFileContent(fileId, content);
+      const file = await storage.getFile(fileId);
+      if (!file) {
+        return res.status(404).json({ error: "File not found" });
+      }
+
+      if (!(await writeProjectFile(file.projectId, file.path, content, req.user!.id))) {
+        await storage.updateFileContent(fileId, content);
+      }
       res.json({ success: true });
     } catch (error) {
       console.error("Error updating file:", error);
@@ -418,10 +1325,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/files/:id", async (req, res) => {
+  app.delete("/api/files/:id", requireAuth, authorizeProject("edit", fileProjectId), async (req, res) => {
     try {
       const fileId = req.params.id;
-      await db.delete(files).where(eq(files.id, fileId));
+      const file = await storage.getFile(fileId);
+      if (!file) {
+        return res.status(404).json({ error: "File not found" });
+      }
+
+      if (!(await writeProjectFile(file.projectId, file.path, null, req.user!.id))) {
+        await storage.deleteFile(fileId);
+      }
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting file:", error);
@@ -429,116 +1343,5 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
-
-  const activeConnections = new Map<string, Set<WebSocket>>();
-
-  wss.on('connection', (ws: WebSocket) => {
-    let currentSessionId: string | null = null;
-    let userId: string | null = null;
-
-    ws.on('message', (data: Buffer) => {
-      try {
-        const message = JSON.parse(data.toString());
-
-        switch (message.type) {
-          case 'join-session':
-            currentSessionId = message.sessionId;
-            userId = message.userId || 'anonymous';
-            
-            if (currentSessionId && !activeConnections.has(currentSessionId)) {
-              activeConnections.set(currentSessionId, new Set());
-            }
-            if (currentSessionId) {
-              activeConnections.get(currentSessionId)!.add(ws);
-              
-              broadcast(currentSessionId, {
-                type: 'participant-joined',
-                userId,
-                timestamp: Date.now(),
-              }, ws);
-            }
-            break;
-
-          case 'editor-change':
-            if (currentSessionId) {
-              broadcast(currentSessionId, {
-                type: 'editor-change',
-                userId,
-                code: message.code,
-                filePath: message.filePath,
-                timestamp: Date.now(),
-              }, ws);
-            }
-            break;
-
-          case 'cursor-move':
-            if (currentSessionId) {
-              broadcast(currentSessionId, {
-                type: 'cursor-move',
-                userId,
-                position: message.position,
-                filePath: message.filePath,
-                timestamp: Date.now(),
-              }, ws);
-            }
-            break;
-
-          case 'leave-session':
-            if (currentSessionId) {
-              broadcast(currentSessionId, {
-                type: 'participant-left',
-                userId,
-                timestamp: Date.now(),
-              }, ws);
-              
-              const connections = activeConnections.get(currentSessionId);
-              if (connections) {
-                connections.delete(ws);
-                if (connections.size === 0) {
-                  activeConnections.delete(currentSessionId);
-                }
-              }
-            }
-            currentSessionId = null;
-            userId = null;
-            break;
-        }
-      } catch (error) {
-        console.error('WebSocket message error:', error);
-      }
-    });
-
-    ws.on('close', () => {
-      if (currentSessionId && userId) {
-        const connections = activeConnections.get(currentSessionId);
-        if (connections) {
-          connections.delete(ws);
-          if (connections.size === 0) {
-            activeConnections.delete(currentSessionId);
-          }
-        }
-        
-        broadcast(currentSessionId, {
-          type: 'participant-left',
-          userId,
-          timestamp: Date.now(),
-        }, ws);
-      }
-    });
-  });
-
-  function broadcast(sessionId: string, message: any, exclude?: WebSocket) {
-    const connections = activeConnections.get(sessionId);
-    if (!connections) return;
-
-    const messageStr = JSON.stringify(message);
-    connections.forEach((client) => {
-      if (client !== exclude && client.readyState === WebSocket.OPEN) {
-        client.send(messageStr);
-      }
-    });
-  }
-
   return httpServer;
 }
@@ -1,5 +1,6 @@
 import { db } from "./db";
 import { users, sessions, sessionParticipants } from "@shared/schema";
+import { hashPassword } from "./auth";
 
 async function seed() {
   console.log("Seeding database...");
@@ -8,7 +9,7 @@ async function seed() {
     .insert(users)
     .values({
       username: "demo_user",
-      password: "password123",
+      password: await hashPassword("password123"),
       displayName: "Demo User",
       email: "demo@pairwise.dev",
       avatarUrl: null,
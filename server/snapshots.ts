@@ -0,0 +1,102 @@
+import { storage } from "./storage";
+import { diffFiles, summarizeChanges } from "./diff";
+import { findMergeBase, mergeFiles } from "./merge";
+import { carryCommentsForward } from "./comment-anchors";
+import { insertSnapshotSchema, type Snapshot } from "@shared/schema";
+import type { MergePreview } from "@shared/merge";
+
+export async function getHeadSnapshot(sessionId: string): Promise<Snapshot | undefined> {
+  const session = await storage.getSession(sessionId);
+  return session?.headSnapshotId
+    ? storage.getSnapshot(session.headSnapshotId)
+    : storage.getLatestSnapshot(sessionId);
+}
+
+export interface TakeSnapshotOptions {
+  sessionId: string;
+  authorId: string | null;
+  description: string | null;
+  files: Record<string, string>;
+  /** Defaults to the session's head */
+  parentId?: string;
+  /** The second parent, for merges */
+  mergeParentId?: string;
+  /** Taken by the auto-snapshot policy rather than a person */
+  automatic?: boolean;
+  /** Recorded with no parent and without moving the head, for history brought in from elsewhere */
+  detached?: boolean;
+}
+
+/**
+ * Records `files` as a snapshot and makes it the session's head. Unless a
+ * parent is given it goes on top of the current head; sessions from before
+ * heads were tracked continue from their latest snapshot. The metadata
+ * describes the changes since that parent.
+ */
+export async function takeSnapshot({
+  sessionId,
+  authorId,
+  description,
+  files,
+  parentId,
+  mergeParentId,
+  automatic = false,
+  detached = false,
+}: TakeSnapshotOptions): Promise<Snapshot> {
+  const parent = detached
+    ? undefined
+    : parentId ? await storage.getSnapshot(parentId) : await getHeadSnapshot(sessionId);
+
+  const parentFiles = parent ? await storage.getSnapshotFiles(parent) : {};
+  const validatedData = insertSnapshotSchema.parse({
+    description,
+    authorId,
+    sessionId,
+    metadata: summarizeChanges(diffFiles(parentFiles, files)),
+    baseSnapshotId: parent?.id ?? null,
+    mergeParentId: mergeParentId ?? null,
+    isAutomatic: automatic,
+  });
+
+  const snapshot = await storage.createSnapshot(validatedData, files);
+  if (!detached) {
+    await storage.setSessionHead(sessionId, snapshot.id);
+    try {
+      await carryCommentsForward(snapshot, files);
+    } catch (error) {
+      // The snapshot stands; its comments just keep their previous anchors
+      console.error(`Error moving comments onto snapshot ${snapshot.id}:`, error);
+    }
+  }
+  return snapshot;
+}
+
+export interface PreparedMerge {
+  preview: MergePreview;
+  oursFiles: Record<string, string>;
+}
+
+export async function prepareMerge(ours: Snapshot, theirs: Snapshot): Promise<PreparedMerge> {
+  const history = await storage.getSnapshotsBySessionId(ours.sessionId);
+  const base = findMergeBase(history, ours.id, theirs.id);
+  const [baseFiles, oursFiles, theirsFiles] = await Promise.all([
+    base ? storage.getSnapshotFiles(base) : {},
+    storage.getSnapshotFiles(ours),
+    storage.getSnapshotFiles(theirs),
+  ]);
+
+  return {
+    preview: {
+      oursId: ours.id,
+      theirsId: theirs.id,
+      baseSnapshotId: base?.id ?? null,
+      files: mergeFiles(baseFiles, oursFiles, theirsFiles),
+    },
+    oursFiles,
+  };
+}
+
+export function sameFiles(a: Record<string, string>, b: Record<string, string>): boolean {
+  const paths = Object.keys(a);
+  return paths.length === Object.keys(b).length && paths.every((path) => a[path] === b[path]);
+}
@@ -3,60 +3,136 @@ import {
   type InsertUser,
   type Project,
   type InsertProject,
+  type RetentionPolicy,
   type Session,
   type InsertSession,
+  type AutoSnapshotPolicy,
   type Snapshot,
   type InsertSnapshot,
+  type SnapshotAnnotations,
   type File,
   type InsertFile,
   type InlineComment,
   type InsertInlineComment,
+  type CommentEdit,
   type SessionParticipant,
   type InsertSessionParticipant,
+  type SessionInvite,
+  type InsertSessionInvite,
   users,
   projects,
   sessions,
   snapshots,
+  snapshotBlobs,
   files,
   inlineComments,
+  commentEdits,
   sessionParticipants,
+  sessionInvites,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, desc } from "drizzle-orm";
+import { readSnapshotFiles, type SnapshotTree } from "@shared/snapshots";
+import type { CommentAnchorState } from "@shared/comments";
+import { db, pool } from "./db";
+import { eq, desc, and, or, gt, isNull, isNotNull, inArray, sql } from "drizzle-orm";
+import { createHash } from "crypto";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+
+const PostgresSessionStore = connectPg(session);
+
+function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUserLastSeen(id: string): Promise<void>;
   
   getProject(id: string): Promise<Project | undefined>;
   getProjectsByOwnerId(ownerId: string): Promise<Project[]>;
   createProject(project: InsertProject): Promise<Project>;
+  getProjectsWithRetentionPolicy(): Promise<Project[]>;
+  updateRetentionPolicy(id: string, policy: RetentionPolicy): Promise<void>;
   
   getSession(id: string): Promise<Session | undefined>;
   getAllSessions(): Promise<Session[]>;
   getSessionsByHostId(hostId: string): Promise<Session[]>;
+  getSessionsByProjectId(projectId: string): Promise<Session[]>;
   createSession(session: InsertSession): Promise<Session>;
   updateSessionStatus(id: string, status: string): Promise<void>;
+  setSessionHead(id: string, snapshotId: string): Promise<void>;
+  updateAutoSnapshotPolicy(id: string, policy: AutoSnapshotPolicy): Promise<void>;
   
+  getSnapshot(id: string): Promise<Snapshot | undefined>;
   getSnapshotsBySessionId(sessionId: string): Promise<Snapshot[]>;
-  createSnapshot(snapshot: InsertSnapshot): Promise<Snapshot>;
+  getLatestSnapshot(sessionId: string): Promise<Snapshot | undefined>;
+  createSnapshot(snapshot: InsertSnapshot, files: Record<string, string>): Promise<Snapshot>;
+  updateSnapshotAnnotations(id: string, annotations: SnapshotAnnotations): Promise<Snapshot | undefined>;
+  /** Stores each distinct content once and returns the tree pointing at it */
+  saveSnapshotBlobs(files: Record<string, string>): Promise<SnapshotTree>;
+  getSnapshotFiles(snapshot: Snapshot): Promise<Record<string, string>>;
+  /** Parent first, back to the root */
+  getSnapshotAncestors(id: string): Promise<Snapshot[]>;
+  /** Every snapshot taken on top of this one, directly or not, oldest first */
+  getSnapshotDescendants(id: string): Promise<Snapshot[]>;
+  /** Points a snapshot at new parents, with metadata describing the changes since them */
+  updateSnapshotLineage(id: string, lineage: Pick<Snapshot, "baseSnapshotId" | "mergeParentId" | "metadata">): Promise<void>;
+  deleteSnapshots(ids: string[]): Promise<void>;
+  /** Of the given snapshots, those a comment was made on or is anchored to */
+  getCommentedSnapshotIds(snapshotIds: string[]): Promise<string[]>;
+  /** The given blobs that no snapshot points at, leaving out `excludingSnapshotIds` */
+  getUnreferencedBlobs(hashes: string[], excludingSnapshotIds?: string[]): Promise<{ hash: string; size: number }[]>;
+  deleteBlobs(hashes: string[]): Promise<void>;
   
   getFilesByProjectId(projectId: string): Promise<File[]>;
   getFile(id: string): Promise<File | undefined>;
   createFile(file: InsertFile): Promise<File>;
   updateFileContent(id: string, content: string): Promise<void>;
+  deleteFile(id: string): Promise<void>;
   
+  getComment(id: string): Promise<InlineComment | undefined>;
   getCommentsBySessionId(sessionId: string): Promise<InlineComment[]>;
   createComment(comment: InsertInlineComment): Promise<InlineComment>;
   updateCommentStatus(id: string, status: string): Promise<void>;
+  updateCommentAnchor(id: string, anchor: CommentAnchorState): Promise<void>;
+  /** Records who applied the comments' suggestions and resolves them */
+  markSuggestionsApplied(ids: string[], userId: string): Promise<void>;
+  /** Replaces a comment's text, keeping the old text in its edit history */
+  updateCommentText(id: string, text: string): Promise<InlineComment>;
+  getCommentEdits(commentId: string): Promise<CommentEdit[]>;
+  /** Blanks a comment and drops its history, leaving the row so replies keep their thread */
+  softDeleteComment(id: string): Promise<void>;
   
   getParticipantsBySessionId(sessionId: string): Promise<SessionParticipant[]>;
+  getParticipant(sessionId: string, userId: string): Promise<SessionParticipant | undefined>;
   addParticipant(participant: InsertSessionParticipant): Promise<SessionParticipant>;
+  markParticipantJoined(sessionId: string, userId: string, role: string): Promise<SessionParticipant>;
+  updateParticipantRole(sessionId: string, userId: string, role: string): Promise<void>;
   removeParticipant(sessionId: string, userId: string): Promise<void>;
+
+  getInvite(id: string): Promise<SessionInvite | undefined>;
+  getInviteByTokenOrCode(tokenOrCode: string): Promise<SessionInvite | undefined>;
+  getActiveInvitesBySessionId(sessionId: string): Promise<SessionInvite[]>;
+  createInvite(invite: InsertSessionInvite): Promise<SessionInvite>;
+  revokeInvite(id: string): Promise<void>;
+  incrementInviteUseCount(id: string): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      tableName: "user_sessions",
+      createTableIfMissing: true,
+    });
+  }
+
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
     return user || undefined;
@@ -72,6 +148,10 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUserLastSeen(id: string): Promise<void> {
+    await db.update(users).set({ lastSeen: new Date() }).where(eq(users.id, id));
+  }
+
   async getProject(id: string): Promise<Project | undefined> {
     const [project] = await db.select().from(projects).where(eq(projects.id, id));
     return project || undefined;
@@ -86,6 +166,14 @@ export class DatabaseStorage implements IStorage {
     return project;
   }
 
+  async getProjectsWithRetentionPolicy(): Promise<Project[]> {
+    return db.select().from(projects).where(isNotNull(projects.retentionPolicy));
+  }
+
+  async updateRetentionPolicy(id: string, policy: RetentionPolicy): Promise<void> {
+    await db.update(projects).set({ retentionPolicy: policy }).where(eq(projects.id, id));
+  }
+
   async getSession(id: string): Promise<Session | undefined> {
     const [session] = await db.select().from(sessions).where(eq(sessions.id, id));
     return session || undefined;
@@ -99,6 +187,10 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(sessions).where(eq(sessions.hostId, hostId)).orderBy(desc(sessions.createdAt));
   }
 
+  async getSessionsByProjectId(projectId: string): Promise<Session[]> {
+    return db.select().from(sessions).where(eq(sessions.projectId, projectId));
+  }
+
   async createSession(insertSession: InsertSession): Promise<Session> {
     const [session] = await db.insert(sessions).values(insertSession).returning();
     return session;
@@ -108,15 +200,158 @@ export class DatabaseStorage implements IStorage {
     await db.update(sessions).set({ status }).where(eq(sessions.id, id));
   }
 
+  async setSessionHead(id: string, snapshotId: string): Promise<void> {
+    await db.update(sessions).set({ headSnapshotId: snapshotId }).where(eq(sessions.id, id));
+  }
+
+  async updateAutoSnapshotPolicy(id: string, policy: AutoSnapshotPolicy): Promise<void> {
+    await db.update(sessions).set({ autoSnapshotPolicy: policy }).where(eq(sessions.id, id));
+  }
+
+  async getSnapshot(id: string): Promise<Snapshot | undefined> {
+    const [snapshot] = await db.select().from(snapshots).where(eq(snapshots.id, id));
+    return snapshot || undefined;
+  }
+
   async getSnapshotsBySessionId(sessionId: string): Promise<Snapshot[]> {
     return db.select().from(snapshots).where(eq(snapshots.sessionId, sessionId)).orderBy(snapshots.timestamp);
   }
 
-  async createSnapshot(insertSnapshot: InsertSnapshot): Promise<Snapshot> {
-    const [snapshot] = await db.insert(snapshots).values(insertSnapshot).returning();
+  async getLatestSnapshot(sessionId: string): Promise<Snapshot | undefined> {
+    const [snapshot] = await db
+      .select()
+      .from(snapshots)
+      .where(eq(snapshots.sessionId, sessionId))
+      .orderBy(desc(snapshots.timestamp))
+      .limit(1);
+    return snapshot || undefined;
+  }
+
+  async createSnapshot(insertSnapshot: InsertSnapshot, files: Record<string, string>): Promise<Snapshot> {
+    const tree = await this.saveSnapshotBlobs(files);
+    const [snapshot] = await db.insert(snapshots).values({ ...insertSnapshot, tree }).returning();
     return snapshot;
   }
 
+  async updateSnapshotAnnotations(id: string, annotations: SnapshotAnnotations): Promise<Snapshot | undefined> {
+    const [snapshot] = await db.update(snapshots).set(annotations).where(eq(snapshots.id, id)).returning();
+    return snapshot || undefined;
+  }
+
+  async saveSnapshotBlobs(files: Record<string, string>): Promise<SnapshotTree> {
+    const tree: SnapshotTree = {};
+    const blobs = new Map<string, string>();
+    for (const [path, content] of Object.entries(files)) {
+      const hash = hashContent(content);
+      tree[path] = hash;
+      blobs.set(hash, content);
+    }
+
+    if (blobs.size > 0) {
+      await db
+        .insert(snapshotBlobs)
+        .values(Array.from(blobs, ([hash, content]) => ({ hash, content, size: Buffer.byteLength(content) })))
+        .onConflictDoNothing();
+    }
+    return tree;
+  }
+
+  async getSnapshotFiles(snapshot: Snapshot): Promise<Record<string, string>> {
+    const hashes = Array.from(new Set(Object.values(snapshot.tree)));
+    // Rows the migration hasn't reached yet still carry their contents inline
+    if (hashes.length === 0) return readSnapshotFiles(snapshot.diff);
+
+    const blobs = await db.select().from(snapshotBlobs).where(inArray(snapshotBlobs.hash, hashes));
+    const contents = new Map(blobs.map((blob) => [blob.hash, blob.content]));
+    return Object.fromEntries(
+      Object.entries(snapshot.tree).map(([path, hash]) => [path, contents.get(hash) ?? ""]),
+    );
+  }
+
+  async getSnapshotAncestors(id: string): Promise<Snapshot[]> {
+    const snapshot = await this.getSnapshot(id);
+    if (!snapshot) return [];
+
+    // Parents never leave their session, so one session's history holds the whole lineage
+    const byId = new Map((await this.getSnapshotsBySessionId(snapshot.sessionId)).map((s) => [s.id, s]));
+    const ancestors: Snapshot[] = [];
+    const seen = new Set([id]);
+    // Breadth-first over both parents of merges, so nearer ancestors come first
+    const queue = [snapshot];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const parentId of [current.baseSnapshotId, current.mergeParentId]) {
+        const parent = parentId ? byId.get(parentId) : undefined;
+        if (!parent || seen.has(parent.id)) continue;
+        seen.add(parent.id);
+        ancestors.push(parent);
+        queue.push(parent);
+      }
+    }
+    return ancestors;
+  }
+
+  async getSnapshotDescendants(id: string): Promise<Snapshot[]> {
+    const snapshot = await this.getSnapshot(id);
+    if (!snapshot) return [];
+
+    const history = await this.getSnapshotsBySessionId(snapshot.sessionId);
+    // Children are always newer than their parents, so one pass in timestamp order finds them all
+    const lineage = new Set([id]);
+    return history.filter((s) => {
+      const isChild = [s.baseSnapshotId, s.mergeParentId].some((parentId) => parentId && lineage.has(parentId));
+      if (isChild) lineage.add(s.id);
+      return isChild;
+    });
+  }
+
+  async updateSnapshotLineage(id: string, lineage: Pick<Snapshot, "baseSnapshotId" | "mergeParentId" | "metadata">): Promise<void> {
+    await db.update(snapshots).set(lineage).where(eq(snapshots.id, id));
+  }
+
+  async deleteSnapshots(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db.delete(snapshots).where(inArray(snapshots.id, ids));
+  }
+
+  async getCommentedSnapshotIds(snapshotIds: string[]): Promise<string[]> {
+    if (snapshotIds.length === 0) return [];
+    const anchoredId = sql<string | null>`${inlineComments.anchor}->>'snapshotId'`;
+    const rows = await db
+      .selectDistinct({ snapshotId: inlineComments.snapshotId, anchoredId })
+      .from(inlineComments)
+      .where(or(inArray(inlineComments.snapshotId, snapshotIds), inArray(anchoredId, snapshotIds)));
+    const requested = new Set(snapshotIds);
+    return Array.from(new Set(rows.flatMap((row) => [row.snapshotId, row.anchoredId])))
+      .filter((id): id is string => id !== null && requested.has(id));
+  }
+
+  async getUnreferencedBlobs(hashes: string[], excludingSnapshotIds: string[] = []): Promise<{ hash: string; size: number }[]> {
+    if (hashes.length === 0) return [];
+    const hashList = sql.join(hashes.map((hash) => sql`${hash}`), sql`, `);
+    const excluded = excludingSnapshotIds.length > 0
+      ? sql`and ${snapshots.id} not in (${sql.join(excludingSnapshotIds.map((id) => sql`${id}`), sql`, `)})`
+      : sql``;
+    // Blobs are shared across sessions and projects, so every snapshot's tree is checked
+    const referenced = await db.execute<{ hash: string }>(sql`
+      select distinct entry.value as hash
+      from ${snapshots} cross join lateral jsonb_each_text(${snapshots.tree}) as entry
+      where entry.value in (${hashList}) ${excluded}
+    `);
+    const stillUsed = new Set(referenced.rows.map((row) => row.hash));
+
+    const blobs = await db
+      .select({ hash: snapshotBlobs.hash, size: snapshotBlobs.size })
+      .from(snapshotBlobs)
+      .where(inArray(snapshotBlobs.hash, hashes));
+    return blobs.filter((blob) => !stillUsed.has(blob.hash));
+  }
+
+  async deleteBlobs(hashes: string[]): Promise<void> {
+    if (hashes.length === 0) return;
+    await db.delete(snapshotBlobs).where(inArray(snapshotBlobs.hash, hashes));
+  }
+
   async getFilesByProjectId(projectId: string): Promise<File[]> {
     return db.select().from(files).where(eq(files.projectId, projectId));
   }
@@ -135,6 +370,15 @@ export class DatabaseStorage implements IStorage {
     await db.update(files).set({ content, updatedAt: new Date() }).where(eq(files.id, id));
   }
 
+  async getComment(id: string): Promise<InlineComment | undefined> {
+    const [comment] = await db.select().from(inlineComments).where(eq(inlineComments.id, id));
+    return comment || undefined;
+  }
+
+  async deleteFile(id: string): Promise<void> {
+    await db.delete(files).where(eq(files.id, id));
+  }
+
   async getCommentsBySessionId(sessionId: string): Promise<InlineComment[]> {
     return db.select().from(inlineComments).where(eq(inlineComments.sessionId, sessionId)).orderBy(inlineComments.createdAt);
   }
@@ -148,20 +392,132 @@ export class DatabaseStorage implements IStorage {
     await db.update(inlineComments).set({ status, updatedAt: new Date() }).where(eq(inlineComments.id, id));
   }
 
+  async updateCommentAnchor(id: string, anchor: CommentAnchorState): Promise<void> {
+    await db.update(inlineComments).set({ anchor }).where(eq(inlineComments.id, id));
+  }
+
+  async updateCommentText(id: string, text: string): Promise<InlineComment> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(inlineComments).where(eq(inlineComments.id, id));
+      if (current.text !== text) {
+        await tx.insert(commentEdits).values({ commentId: id, text: current.text });
+      }
+      const now = new Date();
+      const [comment] = await tx
+        .update(inlineComments)
+        .set({ text, editedAt: current.text !== text ? now : current.editedAt, updatedAt: now })
+        .where(eq(inlineComments.id, id))
+        .returning();
+      return comment;
+    });
+  }
+
+  async getCommentEdits(commentId: string): Promise<CommentEdit[]> {
+    return db.select().from(commentEdits).where(eq(commentEdits.commentId, commentId)).orderBy(desc(commentEdits.createdAt));
+  }
+
+  async softDeleteComment(id: string): Promise<void> {
+    const now = new Date();
+    await db.delete(commentEdits).where(eq(commentEdits.commentId, id));
+    await db
+      .update(inlineComments)
+      .set({ text: "", suggestion: null, deletedAt: now, updatedAt: now })
+      .where(eq(inlineComments.id, id));
+  }
+
+  async markSuggestionsApplied(ids: string[], userId: string): Promise<void> {
+    if (ids.length === 0) return;
+    const now = new Date();
+    await db
+      .update(inlineComments)
+      .set({ suggestionAppliedBy: userId, suggestionAppliedAt: now, status: "resolved", updatedAt: now })
+      .where(inArray(inlineComments.id, ids));
+  }
+
   async getParticipantsBySessionId(sessionId: string): Promise<SessionParticipant[]> {
     return db.select().from(sessionParticipants).where(eq(sessionParticipants.sessionId, sessionId));
   }
 
+  async getParticipant(sessionId: string, userId: string): Promise<SessionParticipant | undefined> {
+    const [participant] = await db
+      .select()
+      .from(sessionParticipants)
+      .where(and(eq(sessionParticipants.sessionId, sessionId), eq(sessionParticipants.userId, userId)))
+      .orderBy(desc(sessionParticipants.joinedAt))
+      .limit(1);
+    return participant || undefined;
+  }
+
   async addParticipant(insertParticipant: InsertSessionParticipant): Promise<SessionParticipant> {
     const [participant] = await db.insert(sessionParticipants).values(insertParticipant).returning();
     return participant;
   }
 
+  // Reopens the existing row on rejoin so a user never has more than one per session
+  async markParticipantJoined(sessionId: string, userId: string, role: string): Promise<SessionParticipant> {
+    const existing = await this.getParticipant(sessionId, userId);
+    if (!existing) {
+      return this.addParticipant({ sessionId, userId, role });
+    }
+
+    const [participant] = await db.update(sessionParticipants)
+      .set({ leftAt: null })
+      .where(eq(sessionParticipants.id, existing.id))
+      .returning();
+    return participant;
+  }
+
+  async updateParticipantRole(sessionId: string, userId: string, role: string): Promise<void> {
+    await db.update(sessionParticipants)
+      .set({ role })
+      .where(and(eq(sessionParticipants.sessionId, sessionId), eq(sessionParticipants.userId, userId)));
+  }
+
   async removeParticipant(sessionId: string, userId: string): Promise<void> {
     await db.update(sessionParticipants)
       .set({ leftAt: new Date() })
-      .where(eq(sessionParticipants.sessionId, sessionId))
-      .where(eq(sessionParticipants.userId, userId));
+      .where(and(eq(sessionParticipants.sessionId, sessionId), eq(sessionParticipants.userId, userId)));
+  }
+
+  async getInvite(id: string): Promise<SessionInvite | undefined> {
+    const [invite] = await db.select().from(sessionInvites).where(eq(sessionInvites.id, id));
+    return invite || undefined;
+  }
+
+  // Join codes are shown in upper case but accepted however they are typed
+  async getInviteByTokenOrCode(tokenOrCode: string): Promise<SessionInvite | undefined> {
+    const [invite] = await db
+      .select()
+      .from(sessionInvites)
+      .where(or(eq(sessionInvites.token, tokenOrCode), eq(sessionInvites.code, tokenOrCode.toUpperCase())));
+    return invite || undefined;
+  }
+
+  async getActiveInvitesBySessionId(sessionId: string): Promise<SessionInvite[]> {
+    return db
+      .select()
+      .from(sessionInvites)
+      .where(and(
+        eq(sessionInvites.sessionId, sessionId),
+        isNull(sessionInvites.revokedAt),
+        gt(sessionInvites.expiresAt, new Date()),
+      ))
+      .orderBy(desc(sessionInvites.createdAt));
+  }
+
+  async createInvite(insertInvite: InsertSessionInvite): Promise<SessionInvite> {
+    const [invite] = await db.insert(sessionInvites).values(insertInvite).returning();
+    return invite;
+  }
+
+  async revokeInvite(id: string): Promise<void> {
+    await db.update(sessionInvites).set({ revokedAt: new Date() }).where(eq(sessionInvites.id, id));
+  }
+
+  async incrementInviteUseCount(id: string): Promise<void> {
+    await db.update(sessionInvites)
+      .set({ useCount: sql`${sessionInvites.useCount} + 1` })
+      .where(eq(sessionInvites.id, id));
   }
 }
 
@@ -0,0 +1,63 @@
+import { editSessionFiles, type TextEdit } from "./collab";
+import { storage } from "./storage";
+import { getCommentAnchor, getRangeOffsets, remapCommentRange } from "@shared/comments";
+import type { InlineComment } from "@shared/schema";
+
+export interface SuggestionResult {
+  /** Suggestions whose code changed since they were made; when any are, nothing is applied */
+  stale: string[];
+  /** The Yjs update that applied the rest, for the caller to broadcast */
+  update: Uint8Array | null;
+}
+
+/**
+ * Applies the suggestions on `comments` to the session's live files as one
+ * edit. Each anchor is carried from its snapshot onto the live text, where
+ * the code must still read exactly as it did when the suggestion was made.
+ */
+export async function applySuggestions(sessionId: string, comments: InlineComment[]): Promise<SuggestionResult> {
+  const sourceFiles = new Map<string, Record<string, string>>();
+  for (const comment of comments) {
+    const { snapshotId } = getCommentAnchor(comment);
+    if (sourceFiles.has(snapshotId)) continue;
+    const snapshot = await storage.getSnapshot(snapshotId);
+    sourceFiles.set(snapshotId, snapshot ? await storage.getSnapshotFiles(snapshot) : {});
+  }
+
+  const { update, result: stale } = await editSessionFiles(sessionId, (files) => {
+    const planned: { commentId: string; edit: TextEdit }[] = [];
+    const stale: string[] = [];
+
+    for (const comment of comments) {
+      const anchor = getCommentAnchor(comment);
+      const before = sourceFiles.get(anchor.snapshotId)?.[anchor.filePath];
+      const current = files[anchor.filePath];
+      const remapped = before !== undefined && current !== undefined && !anchor.outdated
+        ? remapCommentRange(anchor.range, before, current)
+        : null;
+      const offsets = remapped && !remapped.outdated ? getRangeOffsets(current, remapped.range) : null;
+
+      if (!offsets || current.slice(offsets[0], offsets[1]) !== comment.suggestion?.original) {
+        stale.push(comment.id);
+        continue;
+      }
+      planned.push({
+        commentId: comment.id,
+        edit: { path: anchor.filePath, offset: offsets[0], length: offsets[1] - offsets[0], text: comment.suggestion.replacement },
+      });
+    }
+
+    // Two suggestions for the same code can't both apply; the later one is reported instead
+    planned.sort((a, b) => a.edit.path.localeCompare(b.edit.path) || a.edit.offset - b.edit.offset);
+    planned.forEach(({ commentId, edit }, index) => {
+      const previous = planned[index - 1]?.edit;
+      if (previous && previous.path === edit.path && edit.offset < previous.offset + previous.length) {
+        stale.push(commentId);
+      }
+    });
+
+    return { edits: stale.length > 0 ? [] : planned.map(({ edit }) => edit), result: stale };
+  });
+
+  return { stale, update: stale.length > 0 ? null : update };
+}
@@ -0,0 +1,31 @@
+import * as Y from "yjs";
+import { toBase64, fromBase64 } from "lib0/buffer";
+
+// Transaction origins, so each side can tell its own edits from ones it received
+export const LOCAL_ORIGIN = "local";
+export const REMOTE_ORIGIN = "remote";
+
+export const DEFAULT_FILES: Record<string, string> = {
+  "main.ts": "// Start coding...\n\nfunction main() {\n  console.log('Hello, Pairwise!');\n}\n\nmain();\n",
+};
+
+// Every file of a live session is a Y.Text keyed by its path
+export function getFilesMap(doc: Y.Doc): Y.Map<Y.Text> {
+  return doc.getMap<Y.Text>("files");
+}
+
+export function readFiles(doc: Y.Doc): Record<string, string> {
+  const files: Record<string, string> = {};
+  getFilesMap(doc).forEach((text, path) => {
+    files[path] = text.toString();
+  });
+  return files;
+}
+
+export function encodeUpdate(update: Uint8Array): string {
+  return toBase64(update);
+}
+
+export function decodeUpdate(encoded: string): Uint8Array {
+  return fromBase64(encoded);
+}
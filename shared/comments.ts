@@ -0,0 +1,132 @@
+import { diffArrays, diffChars } from "diff";
+import { z } from "zod";
+
+// Lines count from 1 and columns from 0, as in the first comments stored
+const commentPositionSchema = z.object({
+  line: z.number().int().min(1),
+  col: z.number().int().min(0),
+});
+
+/** The stretch of a file a comment is attached to, end inclusive of its line */
+export const commentRangeSchema = z.object({
+  start: commentPositionSchema,
+  end: commentPositionSchema,
+}).refine(
+  ({ start, end }) => end.line > start.line || (end.line === start.line && end.col >= start.col),
+  "A comment range must end after it starts",
+);
+
+export type CommentRange = z.infer<typeof commentRangeSchema>;
+
+/** A suggested change: what the range held when it was made, and what should replace it */
+export const commentSuggestionSchema = z.object({
+  original: z.string().max(100_000),
+  replacement: z.string().max(100_000),
+});
+
+export type CommentSuggestion = z.infer<typeof commentSuggestionSchema>;
+
+/** The character offsets `range` spans in `text`, end exclusive, or null if the text is too short */
+export function getRangeOffsets(text: string, range: CommentRange): [number, number] | null {
+  const lines = text.split("\n");
+  const offsetOf = ({ line, col }: CommentRange["start"]) => {
+    if (line > lines.length || col > lines[line - 1].length) return null;
+    return lines.slice(0, line - 1).reduce((sum, current) => sum + current.length + 1, 0) + col;
+  };
+
+  const start = offsetOf(range.start);
+  const end = offsetOf(range.end);
+  return start === null || end === null ? null : [start, end];
+}
+
+/** "L4" or "L4-9" */
+export function formatCommentRange(range: CommentRange): string {
+  return range.start.line === range.end.line ? `L${range.start.line}` : `L${range.start.line}-${range.end.line}`;
+}
+
+/** Where a thread points now, after being carried through later snapshots */
+export interface CommentAnchorState {
+  snapshotId: string;
+  filePath: string;
+  range: CommentRange;
+  /** The code it was about was deleted or rewritten; the range is where it last was */
+  outdated: boolean;
+}
+
+/** A comment's current anchor; one that was never carried forward is where it was made */
+export function getCommentAnchor(comment: {
+  snapshotId: string;
+  filePath: string;
+  range: CommentRange;
+  anchor: CommentAnchorState | null;
+}): CommentAnchorState {
+  return comment.anchor ?? { snapshotId: comment.snapshotId, filePath: comment.filePath, range: comment.range, outdated: false };
+}
+
+// Rewritten lines still count as the same code while this much of their text survives
+const MIN_SIMILARITY = 0.5;
+
+function similarity(a: string, b: string): number {
+  if (a.length + b.length === 0) return 1;
+  const common = diffChars(a, b).reduce((sum, part) => (part.added || part.removed ? sum : sum + part.value.length), 0);
+  return (2 * common) / (a.length + b.length);
+}
+
+/**
+ * Moves `range` from `before` to `after`. Unchanged lines carry it along
+ * as-is; when the lines it covers were edited, it stretches over whatever
+ * replaced them, unless that is too different or nothing, in which case the
+ * range is returned untouched and flagged outdated.
+ */
+export function remapCommentRange(range: CommentRange, before: string, after: string): { range: CommentRange; outdated: boolean } {
+  if (before === after) return { range, outdated: false };
+
+  const oldLines = before.split("\n");
+  const newLines = after.split("\n");
+
+  // Old line index → new line index, for lines the edit left alone
+  const unchanged = new Map<number, number>();
+  let oldIndex = 0;
+  let newIndex = 0;
+  for (const part of diffArrays(oldLines, newLines)) {
+    const count = part.value.length;
+    if (!part.added && !part.removed) {
+      for (let i = 0; i < count; i++) unchanged.set(oldIndex + i, newIndex + i);
+    }
+    if (!part.added) oldIndex += count;
+    if (!part.removed) newIndex += count;
+  }
+
+  const start = range.start.line - 1;
+  const end = Math.min(range.end.line, oldLines.length) - 1;
+  if (start > end) return { range, outdated: true };
+
+  // Edited ends are bounded by the nearest untouched lines around them
+  let newStart = unchanged.get(start);
+  if (newStart === undefined) {
+    let previous = start - 1;
+    while (previous >= 0 && !unchanged.has(previous)) previous--;
+    newStart = previous >= 0 ? unchanged.get(previous)! + 1 : 0;
+  }
+  let newEnd = unchanged.get(end);
+  if (newEnd === undefined) {
+    let next = end + 1;
+    while (next < oldLines.length && !unchanged.has(next)) next++;
+    newEnd = next < oldLines.length ? unchanged.get(next)! - 1 : newLines.length - 1;
+  }
+  if (newEnd < newStart) return { range, outdated: true };
+
+  const oldText = oldLines.slice(start, end + 1).join("\n");
+  const newText = newLines.slice(newStart, newEnd + 1).join("\n");
+  if (oldText !== newText && similarity(oldText, newText) < MIN_SIMILARITY) {
+    return { range, outdated: true };
+  }
+
+  return {
+    range: {
+      start: { line: newStart + 1, col: unchanged.has(start) ? range.start.col : 0 },
+      end: { line: newEnd + 1, col: unchanged.has(end) ? range.end.col : newLines[newEnd].length },
+    },
+    outdated: false,
+  };
+}
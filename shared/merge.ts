@@ -0,0 +1,80 @@
+export type ConflictChoice = "ours" | "theirs" | "both";
+
+export type MergeChunk =
+  | { type: "resolved"; lines: string[] }
+  | { type: "conflict"; id: number; base: string[]; ours: string[]; theirs: string[] };
+
+export type FileMergeStatus = "merged" | "conflicted" | "deleted";
+
+export interface FileMerge {
+  path: string;
+  status: FileMergeStatus;
+  /**
+   * Set when one side deleted a file the other side changed. The file holds a
+   * single conflict: choosing the deleting side removes it, anything else keeps
+   * the other side's content.
+   */
+  deletedIn?: "ours" | "theirs";
+  chunks: MergeChunk[];
+}
+
+export interface MergePreview {
+  oursId: string;
+  theirsId: string;
+  /** The closest common ancestor, or null when the two share no history */
+  baseSnapshotId: string | null;
+  /** Only files whose merged content differs from ours */
+  files: FileMerge[];
+}
+
+/** Conflict choices per file path, keyed by conflict id */
+export type MergeResolutions = Record<string, Record<number, ConflictChoice>>;
+
+// Files are split on "\n" and joined back the same way, so content round-trips exactly
+export function splitLines(content: string): string[] {
+  return content.split("\n");
+}
+
+export function joinLines(lines: string[]): string {
+  return lines.join("\n");
+}
+
+export function getConflicts(file: FileMerge) {
+  return file.chunks.filter((chunk): chunk is Extract<MergeChunk, { type: "conflict" }> => chunk.type === "conflict");
+}
+
+export function getUnresolvedConflicts(file: FileMerge, choices: Record<number, ConflictChoice> = {}) {
+  return getConflicts(file).filter((conflict) => !choices[conflict.id]);
+}
+
+/**
+ * The file's content once `choices` are applied, or null if the merge deletes
+ * it. Unresolved conflicts are written out with git-style markers.
+ */
+export function resolveFileMerge(file: FileMerge, choices: Record<number, ConflictChoice> = {}): string | null {
+  if (file.status === "deleted") return null;
+
+  if (file.deletedIn) {
+    const conflict = getConflicts(file)[0];
+    const choice = conflict ? choices[conflict.id] : undefined;
+    if (choice === file.deletedIn) return null;
+    if (choice) {
+      return joinLines(file.deletedIn === "ours" ? conflict.theirs : conflict.ours);
+    }
+  }
+
+  const lines = file.chunks.flatMap((chunk) => {
+    if (chunk.type === "resolved") return chunk.lines;
+    switch (choices[chunk.id]) {
+      case "ours":
+        return chunk.ours;
+      case "theirs":
+        return chunk.theirs;
+      case "both":
+        return [...chunk.ours, ...chunk.theirs];
+      default:
+        return ["<<<<<<< ours", ...chunk.ours, "=======", ...chunk.theirs, ">>>>>>> theirs"];
+    }
+  });
+  return joinLines(lines);
+}
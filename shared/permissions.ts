@@ -0,0 +1,23 @@
+export const participantRoles = ["host", "participant", "observer"] as const;
+export type ParticipantRole = (typeof participantRoles)[number];
+
+export type SessionPermission = "view" | "edit" | "comment" | "manage";
+
+const rolePermissions: Record<ParticipantRole, SessionPermission[]> = {
+  host: ["view", "edit", "comment", "manage"],
+  participant: ["view", "edit", "comment"],
+  observer: ["view"],
+};
+
+export function isParticipantRole(value: unknown): value is ParticipantRole {
+  return typeof value === "string" && (participantRoles as readonly string[]).includes(value);
+}
+
+export function can(role: string | null | undefined, permission: SessionPermission): boolean {
+  return isParticipantRole(role) && rolePermissions[role].includes(permission);
+}
+
+// Higher rank wins when a user holds several roles (e.g. across sessions of one project)
+export function roleRank(role: ParticipantRole): number {
+  return participantRoles.length - participantRoles.indexOf(role);
+}
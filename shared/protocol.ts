@@ -0,0 +1,230 @@
+import { z } from "zod";
+import { participantRoles } from "./permissions";
+
+// Cursor ends are Yjs relative positions; only the client that renders them interprets their shape
+const cursorSchema = z.object({
+  filePath: z.string(),
+  anchor: z.unknown(),
+  head: z.unknown(),
+});
+
+export const presenceStatuses = ["active", "idle"] as const;
+export type PresenceStatus = typeof presenceStatuses[number];
+
+// One entry per open connection; a user with two tabs shows up twice
+const presenceEntrySchema = z.object({
+  connectionId: z.string(),
+  userId: z.string(),
+  role: z.enum(participantRoles),
+  status: z.enum(presenceStatuses),
+  filePath: z.string().nullable(),
+  cursor: cursorSchema.nullable(),
+});
+
+const presenceSchema = z.array(presenceEntrySchema);
+
+// Base64-encoded Yjs update (see encodeUpdate in ./collab)
+const updateSchema = z.string().min(1);
+
+/* Client → server */
+
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("join-session"),
+    sessionId: z.string().min(1),
+    clientId: z.string().min(1),
+    resume: z.object({ epoch: z.string(), seq: z.number().int().nonnegative() }).optional(),
+  }),
+  z.object({ type: z.literal("leave-session") }),
+  z.object({ type: z.literal("doc-update"), update: updateSchema }),
+  cursorSchema.extend({ type: z.literal("cursor-move") }),
+  z.object({
+    type: z.literal("presence"),
+    status: z.enum(presenceStatuses),
+    filePath: z.string().nullable(),
+  }),
+  z.object({ type: z.literal("ping") }),
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+/* Server → client */
+
+export const wsErrorCodes = ["invalid-message", "not-joined", "forbidden", "internal"] as const;
+export type WsErrorCode = typeof wsErrorCodes[number];
+
+// Set on every broadcast so reconnecting clients can resume from where they left off
+const seqSchema = z.number().int().positive().optional();
+
+export const serverMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("session-state"),
+    epoch: z.string(),
+    seq: z.number().int().nonnegative(),
+    update: updateSchema,
+    files: z.record(z.string()),
+    versions: z.record(z.number()),
+    presence: presenceSchema,
+  }),
+  z.object({
+    type: z.literal("session-resumed"),
+    epoch: z.string(),
+    seq: z.number().int().nonnegative(),
+    stateVector: updateSchema,
+    presence: presenceSchema,
+  }),
+  z.object({
+    type: z.literal("doc-update"),
+    seq: seqSchema,
+    userId: z.string(),
+    update: updateSchema,
+    timestamp: z.number(),
+  }),
+  cursorSchema.extend({
+    type: z.literal("cursor-move"),
+    seq: seqSchema,
+    userId: z.string(),
+    timestamp: z.number(),
+  }),
+  z.object({
+    type: z.literal("participant-joined"),
+    seq: seqSchema,
+    userId: z.string(),
+    role: z.enum(participantRoles),
+    timestamp: z.number(),
+  }),
+  z.object({
+    type: z.literal("participant-left"),
+    seq: seqSchema,
+    userId: z.string(),
+    timestamp: z.number(),
+  }),
+  z.object({
+    type: z.literal("presence-update"),
+    seq: seqSchema,
+    connectionId: z.string(),
+    userId: z.string(),
+    role: z.enum(participantRoles),
+    status: z.enum(presenceStatuses),
+    filePath: z.string().nullable(),
+    /** False once the connection has gone; its entry should be dropped */
+    online: z.boolean(),
+    timestamp: z.number(),
+  }),
+  z.object({
+    type: z.literal("role-changed"),
+    seq: seqSchema,
+    userId: z.string(),
+    role: z.enum(participantRoles),
+    changedBy: z.string(),
+    timestamp: z.number(),
+  }),
+  z.object({
+    type: z.literal("session-status"),
+    seq: seqSchema,
+    status: z.string(),
+    timestamp: z.number(),
+  }),
+  z.object({
+    type: z.literal("snapshot-created"),
+    seq: seqSchema,
+    snapshotId: z.string(),
+    sessionId: z.string(),
+    author: z.string().nullable(),
+    description: z.string().nullable(),
+    metadata: z.record(z.unknown()),
+    timestamp: z.string(),
+  }),
+  z.object({
+    type: z.literal("head-changed"),
+    seq: seqSchema,
+    /** The snapshot the next one will be taken on top of */
+    snapshotId: z.string(),
+    userId: z.string(),
+    timestamp: z.number(),
+  }),
+  z.object({
+    type: z.literal("snapshot-updated"),
+    seq: seqSchema,
+    /** Tags, pin or note changed */
+    snapshotId: z.string(),
+    userId: z.string(),
+    timestamp: z.number(),
+  }),
+  z.object({
+    type: z.literal("comment-added"),
+    seq: seqSchema,
+    commentId: z.string(),
+    /** The thread a reply was added to; null for a new thread */
+    parentId: z.string().nullable(),
+    userId: z.string(),
+    timestamp: z.number(),
+  }),
+  z.object({
+    type: z.literal("comment-updated"),
+    seq: seqSchema,
+    commentId: z.string(),
+    userId: z.string(),
+    timestamp: z.number(),
+  }),
+  z.object({
+    type: z.literal("snapshot-restored"),
+    seq: seqSchema,
+    snapshotId: z.string(),
+    /** Holds the files as they were just before the restore */
+    safetySnapshotId: z.string(),
+    userId: z.string(),
+    timestamp: z.number(),
+  }),
+  z.object({
+    type: z.literal("pong"),
+    timestamp: z.number(),
+  }),
+  z.object({
+    type: z.literal("error"),
+    code: z.enum(wsErrorCodes),
+    message: z.string(),
+    /** The client message type that caused the error, when it could be read */
+    requestType: z.string().optional(),
+  }),
+]);
+
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+export type ServerMessageType = ServerMessage["type"];
+export type ServerMessageOf<T extends ServerMessageType> = Extract<ServerMessage, { type: T }>;
+
+// Messages fanned out to a whole session; the realtime layer stamps their `seq`
+export type BroadcastMessage = Exclude<ServerMessage, { type: "session-state" | "session-resumed" | "pong" | "error" }>;
+
+export type PresenceEntry = z.infer<typeof presenceEntrySchema>;
+
+export type ParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; type?: string; error: string };
+
+function parseMessage<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, raw: string): ParseResult<T> {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { success: false, error: "Message is not valid JSON" };
+  }
+
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  const type = typeof data === "object" && data !== null && "type" in data ? String(data.type) : undefined;
+  const issue = result.error.issues[0];
+  const where = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+  return { success: false, type, error: `${where}${issue.message}` };
+}
+
+export function parseClientMessage(raw: string): ParseResult<ClientMessage> {
+  return parseMessage(clientMessageSchema, raw);
+}
+
+export function parseServerMessage(raw: string): ParseResult<ServerMessage> {
+  return parseMessage(serverMessageSchema, raw);
+}
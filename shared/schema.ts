@@ -1,7 +1,9 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, jsonb, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, jsonb, integer, boolean, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { snapshotTagsSchema, type SnapshotMetadata, type SnapshotTree } from "./snapshots";
+import { commentRangeSchema, commentSuggestionSchema, type CommentAnchorState, type CommentRange, type CommentSuggestion } from "./comments";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -20,6 +22,8 @@ export const projects = pgTable("projects", {
   ownerId: varchar("owner_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   description: text("description"),
+  // How old automatic snapshots are thinned out; no policy keeps everything
+  retentionPolicy: jsonb("retention_policy").$type<RetentionPolicy>(),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
@@ -32,6 +36,9 @@ export const sessions = pgTable("sessions", {
   status: text("status").notNull().default("scheduled"),
   startedAt: timestamp("started_at"),
   endedAt: timestamp("ended_at"),
+  // The snapshot the working files were last taken or forked from; the parent of the next snapshot
+  headSnapshotId: varchar("head_snapshot_id").references((): AnyPgColumn => snapshots.id, { onDelete: "set null" }),
+  autoSnapshotPolicy: jsonb("auto_snapshot_policy").$type<AutoSnapshotPolicy>(),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
@@ -41,8 +48,28 @@ export const snapshots = pgTable("snapshots", {
   authorId: varchar("author_id").references(() => users.id, { onDelete: "set null" }),
   timestamp: timestamp("timestamp").notNull().default(sql`now()`),
   description: text("description"),
-  diff: jsonb("diff").notNull(),
-  baseSnapshotId: varchar("base_snapshot_id"),
+  // Path → content hash; the contents live once each in snapshot_blobs
+  tree: jsonb("tree").$type<SnapshotTree>().notNull().default(sql`'{}'::jsonb`),
+  metadata: jsonb("metadata").$type<SnapshotMetadata>(),
+  // Full file contents, as snapshots were stored before blobs; emptied by `npm run db:migrate-snapshots`
+  diff: jsonb("diff"),
+  baseSnapshotId: varchar("base_snapshot_id").references((): AnyPgColumn => snapshots.id, { onDelete: "set null" }),
+  // The second parent of a merge: the snapshot that was merged into baseSnapshotId
+  mergeParentId: varchar("merge_parent_id").references((): AnyPgColumn => snapshots.id, { onDelete: "set null" }),
+  // Taken by the server under the session's auto-snapshot policy rather than by a person
+  isAutomatic: boolean("is_automatic").notNull().default(false),
+  // Short labels such as "before-refactor", kept lowercase and unique per snapshot
+  tags: text("tags").array().notNull().default(sql`'{}'::text[]`),
+  pinned: boolean("pinned").notNull().default(false),
+  // A longer markdown annotation next to the one-line description
+  note: text("note"),
+});
+
+export const snapshotBlobs = pgTable("snapshot_blobs", {
+  hash: varchar("hash", { length: 64 }).primaryKey(),
+  content: text("content").notNull(),
+  size: integer("size").notNull(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
 export const files = pgTable("files", {
@@ -58,15 +85,33 @@ export const inlineComments = pgTable("inline_comments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   sessionId: varchar("session_id").notNull().references(() => sessions.id, { onDelete: "cascade" }),
   snapshotId: varchar("snapshot_id").notNull().references(() => snapshots.id, { onDelete: "cascade" }),
+  // Replies point at the comment that started the thread; threads are one level deep
+  parentId: varchar("parent_id").references((): AnyPgColumn => inlineComments.id, { onDelete: "cascade" }),
   filePath: text("file_path").notNull(),
-  range: jsonb("range").notNull(),
+  range: jsonb("range").$type<CommentRange>().notNull(),
+  // Where the thread points in the latest snapshot; null while that is still where it was made
+  anchor: jsonb("anchor").$type<CommentAnchorState>(),
+  suggestion: jsonb("suggestion").$type<CommentSuggestion>(),
+  suggestionAppliedBy: varchar("suggestion_applied_by").references(() => users.id, { onDelete: "set null" }),
+  suggestionAppliedAt: timestamp("suggestion_applied_at"),
   authorId: varchar("author_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   text: text("text").notNull(),
   status: text("status").notNull().default("open"),
+  editedAt: timestamp("edited_at"),
+  // Deleted comments keep their row, without text, so their thread stays intact
+  deletedAt: timestamp("deleted_at"),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
 
+// Each row is a comment's text as it read before one edit
+export const commentEdits = pgTable("comment_edits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  commentId: varchar("comment_id").notNull().references(() => inlineComments.id, { onDelete: "cascade" }),
+  text: text("text").notNull(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
 export const sessionParticipants = pgTable("session_participants", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   sessionId: varchar("session_id").notNull().references(() => sessions.id, { onDelete: "cascade" }),
@@ -76,6 +121,19 @@ export const sessionParticipants = pgTable("session_participants", {
   leftAt: timestamp("left_at"),
 });
 
+export const sessionInvites = pgTable("session_invites", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().references(() => sessions.id, { onDelete: "cascade" }),
+  token: text("token").notNull().unique(),
+  code: text("code").unique(),
+  role: text("role").notNull().default("participant"),
+  createdBy: varchar("created_by").notNull().references(() => users.id, { onDelete: "cascade" }),
+  useCount: integer("use_count").notNull().default(0),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
 export const usersRelations = relations(users, ({ many }) => ({
   projects: many(projects),
   hostedSessions: many(sessions),
@@ -104,6 +162,7 @@ export const sessionsRelations = relations(sessions, ({ one, many }) => ({
   snapshots: many(snapshots),
   comments: many(inlineComments),
   participants: many(sessionParticipants),
+  invites: many(sessionInvites),
 }));
 
 export const snapshotsRelations = relations(snapshots, ({ one, many }) => ({
@@ -125,7 +184,7 @@ export const filesRelations = relations(files, ({ one }) => ({
   }),
 }));
 
-export const inlineCommentsRelations = relations(inlineComments, ({ one }) => ({
+export const inlineCommentsRelations = relations(inlineComments, ({ one, many }) => ({
   session: one(sessions, {
     fields: [inlineComments.sessionId],
     references: [sessions.id],
@@ -138,6 +197,20 @@ export const inlineCommentsRelations = relations(inlineComments, ({ one }) => ({
     fields: [inlineComments.authorId],
     references: [users.id],
   }),
+  parent: one(inlineComments, {
+    fields: [inlineComments.parentId],
+    references: [inlineComments.id],
+    relationName: "replies",
+  }),
+  replies: many(inlineComments, { relationName: "replies" }),
+  edits: many(commentEdits),
+}));
+
+export const commentEditsRelations = relations(commentEdits, ({ one }) => ({
+  comment: one(inlineComments, {
+    fields: [commentEdits.commentId],
+    references: [inlineComments.id],
+  }),
 }));
 
 export const sessionParticipantsRelations = relations(sessionParticipants, ({ one }) => ({
@@ -151,6 +224,17 @@ export const sessionParticipantsRelations = relations(sessionParticipants, ({ on
   }),
 }));
 
+export const sessionInvitesRelations = relations(sessionInvites, ({ one }) => ({
+  session: one(sessions, {
+    fields: [sessionInvites.sessionId],
+    references: [sessions.id],
+  }),
+  creator: one(users, {
+    fields: [sessionInvites.createdBy],
+    references: [users.id],
+  }),
+}));
+
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
@@ -159,17 +243,25 @@ export const insertUserSchema = createInsertSchema(users).omit({
 
 export const insertProjectSchema = createInsertSchema(projects).omit({
   id: true,
+  retentionPolicy: true,
   createdAt: true,
 });
 
 export const insertSessionSchema = createInsertSchema(sessions).omit({
   id: true,
+  headSnapshotId: true,
+  autoSnapshotPolicy: true,
   createdAt: true,
 });
 
 export const insertSnapshotSchema = createInsertSchema(snapshots).omit({
   id: true,
   timestamp: true,
+  tree: true,
+  diff: true,
+  tags: true,
+  pinned: true,
+  note: true,
 });
 
 export const insertFileSchema = createInsertSchema(files).omit({
@@ -180,8 +272,32 @@ export const insertFileSchema = createInsertSchema(files).omit({
 
 export const insertInlineCommentSchema = createInsertSchema(inlineComments).omit({
   id: true,
+  anchor: true,
+  suggestionAppliedBy: true,
+  suggestionAppliedAt: true,
+  editedAt: true,
+  deletedAt: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  range: commentRangeSchema,
+  suggestion: commentSuggestionSchema.nullable().optional(),
+});
+
+export const updateCommentSchema = z.object({
+  text: z.string().trim().min(1, "Comment text is required"),
+});
+
+// A reply takes its file, range and snapshot from the thread it answers
+export const createCommentReplySchema = z.object({
+  text: z.string().trim().min(1, "Reply text is required"),
+});
+
+// Applies suggestions together; with `snapshot`, the result is recorded as one snapshot
+export const applySuggestionsSchema = z.object({
+  commentIds: z.array(z.string()).min(1).max(50),
+  snapshot: z.boolean().default(true),
+  description: z.string().trim().max(200).optional(),
 });
 
 export const insertSessionParticipantSchema = createInsertSchema(sessionParticipants).omit({
@@ -189,17 +305,69 @@ export const insertSessionParticipantSchema = createInsertSchema(sessionParticip
   joinedAt: true,
 });
 
+export const insertSessionInviteSchema = createInsertSchema(sessionInvites).omit({
+  id: true,
+  useCount: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
+// What a host chooses when creating an invite; the token and code are generated server-side
+export const createInviteSchema = z.object({
+  role: z.enum(["participant", "observer"]).default("participant"),
+  expiresInHours: z.number().int().positive().max(24 * 30).default(24),
+  withCode: z.boolean().default(false),
+});
+
+// Each rule is off while null; automatic snapshots are only taken when the files changed since the last snapshot
+export const autoSnapshotPolicySchema = z.object({
+  intervalMinutes: z.number().int().min(1).max(24 * 60).nullable().default(null),
+  idleSeconds: z.number().int().min(5).max(60 * 60).nullable().default(null),
+  changedLines: z.number().int().min(1).max(100000).nullable().default(null),
+});
+
+// Automatic snapshots are kept in full for keepAllHours, then one per hour until keepHourlyDays, then one per day
+export const retentionPolicySchema = z.object({
+  enabled: z.boolean().default(true),
+  keepAllHours: z.number().int().min(1).max(24 * 30).default(24),
+  keepHourlyDays: z.number().int().min(1).max(365).default(7),
+}).refine(
+  (policy) => policy.keepHourlyDays * 24 >= policy.keepAllHours,
+  { message: "Hourly thinning must last at least as long as snapshots are kept in full", path: ["keepHourlyDays"] },
+);
+
+// Fields left out are unchanged; a null note clears it
+export const updateSnapshotAnnotationsSchema = z.object({
+  tags: snapshotTagsSchema.optional(),
+  pinned: z.boolean().optional(),
+  note: z.string().max(20000).nullable().optional(),
+}).refine((annotations) => Object.values(annotations).some((value) => value !== undefined), "Nothing to update");
+
+// Choices for each conflict, keyed by file path and then conflict id (see shared/merge.ts)
+export const mergeSnapshotsSchema = z.object({
+  description: z.string().max(500).optional(),
+  resolutions: z.record(z.record(z.enum(["ours", "theirs", "both"]))).default({}),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type Project = typeof projects.$inferSelect;
+export type RetentionPolicy = z.infer<typeof retentionPolicySchema>;
 export type InsertSession = z.infer<typeof insertSessionSchema>;
 export type Session = typeof sessions.$inferSelect;
+export type AutoSnapshotPolicy = z.infer<typeof autoSnapshotPolicySchema>;
 export type InsertSnapshot = z.infer<typeof insertSnapshotSchema>;
 export type Snapshot = typeof snapshots.$inferSelect;
+export type SnapshotBlob = typeof snapshotBlobs.$inferSelect;
+export type SnapshotAnnotations = z.infer<typeof updateSnapshotAnnotationsSchema>;
 export type InsertFile = z.infer<typeof insertFileSchema>;
 export type File = typeof files.$inferSelect;
 export type InsertInlineComment = z.infer<typeof insertInlineCommentSchema>;
 export type InlineComment = typeof inlineComments.$inferSelect;
+export type CommentEdit = typeof commentEdits.$inferSelect;
 export type InsertSessionParticipant = z.infer<typeof insertSessionParticipantSchema>;
 export type SessionParticipant = typeof sessionParticipants.$inferSelect;
+export type InsertSessionInvite = z.infer<typeof insertSessionInviteSchema>;
+export type SessionInvite = typeof sessionInvites.$inferSelect;
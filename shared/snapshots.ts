@@ -0,0 +1,82 @@
+import { z } from "zod";
+
+/** Path → SHA-256 of the file content */
+export type SnapshotTree = Record<string, string>;
+
+export type FileChangeStatus = "created" | "deleted" | "modified" | "renamed";
+
+/**
+ * Line counts for one file. A removed line directly replaced by an added one
+ * counts once as `modified`, not as one removal plus one addition.
+ */
+export interface LineStats {
+  added: number;
+  removed: number;
+  modified: number;
+}
+
+export interface FileChange extends LineStats {
+  path: string;
+  status: FileChangeStatus;
+  /** Set for renames: where the file used to live */
+  previousPath?: string;
+}
+
+// A type alias rather than an interface so it fits the protocol's metadata record
+export type SnapshotMetadata = {
+  /** added + removed + modified across all files */
+  linesChanged: number;
+  linesAdded: number;
+  linesRemoved: number;
+  linesModified: number;
+  /** Every path whose content or location changed */
+  filesModified: string[];
+  filesCreated: string[];
+  filesDeleted: string[];
+  filesRenamed: Array<{ from: string; to: string }>;
+  changes: FileChange[];
+};
+
+/** How two snapshots differ, file by file, without their contents */
+export interface SnapshotComparison {
+  fromId: string;
+  toId: string;
+  changes: FileChange[];
+  stats: LineStats;
+}
+
+/** One file's two sides in a comparison; a side the file doesn't exist on is empty */
+export interface FileComparison extends FileChange {
+  oldContent: string;
+  newContent: string;
+}
+
+// Snapshots saved before files were keyed by path stored them as [{ path, content }]
+export function readSnapshotFiles(diff: unknown): Record<string, string> {
+  const files = (diff as { files?: unknown } | null)?.files;
+  if (Array.isArray(files)) {
+    return Object.fromEntries(
+      files
+        .filter((file) => typeof file?.path === "string" && typeof file?.content === "string")
+        .map((file) => [file.path, file.content]),
+    );
+  }
+  if (files && typeof files === "object") {
+    return Object.fromEntries(
+      Object.entries(files).filter((entry): entry is [string, string] => typeof entry[1] === "string"),
+    );
+  }
+  return {};
+}
+
+// Tags are compared and stored lowercase, so "Before-Refactor" and "before-refactor" are one tag
+export const snapshotTagSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1)
+  .max(40)
+  .regex(/^[a-z0-9][a-z0-9._-]*$/, "Tags may only contain letters, digits, '.', '_' and '-'");
+
+/** A snapshot's tags: at most 20, each kept once */
+export const snapshotTagsSchema = z.array(snapshotTagSchema).max(20).transform((tags) => Array.from(new Set(tags)));